@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdf.js loads its worker module at runtime, which bundling breaks;
+  // linkedom requires its optional `canvas` peer dependency inside a try/catch
+  serverExternalPackages: ["pdfjs-dist", "linkedom"],
 };
 
 export default nextConfig;
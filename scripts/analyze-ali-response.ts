@@ -28,8 +28,8 @@ What am I doing wrong?`;
   const { completion, sources } = await generateRAGResponse(aliQuestion, 'inngest');
   
   let response = '';
-  for await (const chunk of completion) {
-    response += chunk.choices[0]?.delta?.content || '';
+  for await (const content of completion) {
+    response += content;
   }
   
   console.log('📋 FULL RESPONSE:');
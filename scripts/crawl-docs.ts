@@ -0,0 +1,31 @@
+#!/usr/bin/env tsx
+
+/**
+ * Documentation Crawl Script
+ * 
+ * Crawls a domain's officialDocUrls (and their sitemaps) and ingests every
+ * page into the configured vector store. Re-runs only re-ingest pages whose
+ * ETag / Last-Modified changed.
+ * 
+ * Usage: npm run crawl -- [domain]   (defaults to inngest)
+ */
+
+import { config } from 'dotenv';
+import { crawlDomainDocs } from '../src/lib/crawler';
+
+// Load environment variables
+config();
+
+async function main() {
+  const domain = process.argv[2] || 'inngest';
+
+  const result = await crawlDomainDocs(domain);
+  if (!result.success) {
+    console.error(`\n❌ ${result.message}`);
+    process.exit(1);
+  }
+
+  console.log(`\n✅ ${result.message}`);
+}
+
+main().catch(console.error);
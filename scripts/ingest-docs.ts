@@ -4,13 +4,15 @@
  * Inngest Documentation Ingestion Script
  * 
  * This script downloads and processes the Inngest documentation,
- * then uploads it to your Pinecone vector database.
+ * then uploads it to the configured vector store (Pinecone or local).
  * 
  * Usage: npm run ingest
+ *        npm run ingest -- <llms.txt url> [domain]   (every page the index links to)
  */
 
 import { config } from 'dotenv';
-import { ingestInngestDocs } from '../src/lib/docs';
+import { ingestInngestDocs, ingestLlmsTxt } from '../src/lib/docs';
+import { getVectorStoreConfig } from '../src/lib/config';
 
 // Load environment variables
 config();
@@ -19,7 +21,13 @@ async function main() {
   console.log('🚀 Starting Inngest documentation ingestion...\n');
   
   // Verify environment variables
-  const requiredEnvVars = ['OPENAI_API_KEY', 'PINECONE_API_KEY', 'PINECONE_INDEX_NAME'];
+  const requiredEnvVars: string[] = [];
+  if ((process.env.MODEL_PROVIDER || 'openai') === 'openai') {
+    requiredEnvVars.push('OPENAI_API_KEY');
+  }
+  if (getVectorStoreConfig().provider === 'pinecone') {
+    requiredEnvVars.push('PINECONE_API_KEY', 'PINECONE_INDEX_NAME');
+  }
   const missingVars = requiredEnvVars.filter(envVar => !process.env[envVar]);
   
   if (missingVars.length > 0) {
@@ -30,7 +38,8 @@ async function main() {
   }
   
   try {
-    const result = await ingestInngestDocs();
+    const [indexUrl, domain = 'inngest'] = process.argv.slice(2);
+    const result = indexUrl ? await ingestLlmsTxt(indexUrl, domain) : await ingestInngestDocs();
     
     console.log('\n✅ Ingestion completed successfully!');
     console.log(`📊 Processed ${result.chunks} chunks`);
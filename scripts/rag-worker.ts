@@ -1,12 +1,19 @@
 import { config } from 'dotenv';
 import { RAGWorker } from '../src/lib/ragWorker';
+import { getVectorStoreConfig } from '../src/lib/config';
 
 // Load environment variables
 config();
 
 async function startWorker() {
   // Verify required environment variables
-  const requiredVars = ['PINECONE_API_KEY', 'OPENAI_API_KEY', 'PINECONE_INDEX_NAME'];
+  const requiredVars: string[] = [];
+  if ((process.env.MODEL_PROVIDER || 'openai') === 'openai') {
+    requiredVars.push('OPENAI_API_KEY');
+  }
+  if (getVectorStoreConfig().provider === 'pinecone') {
+    requiredVars.push('PINECONE_API_KEY', 'PINECONE_INDEX_NAME');
+  }
   const missing = requiredVars.filter(varName => !process.env[varName]);
   
   if (missing.length > 0) {
@@ -1,4 +1,8 @@
 import { generateRAGResponse } from '@/lib/ai';
+import { parseMMRLambda } from '@/lib/mmr';
+import { parseQueryExpansion } from '@/lib/queryTransform';
+import { parseSearchFilter } from '@/lib/searchFilter';
+import type { RAGQueryOptions, SearchFilter, SourceReference } from '@/types';
 import { NextRequest, NextResponse } from 'next/server';
 
 // Enable streaming for this API route
@@ -6,17 +10,39 @@ export const runtime = 'nodejs';
 
 export async function POST(request: NextRequest) {
   try {
-    const { message, domain = 'inngest' } = await request.json();
+    const {
+      message,
+      domain = 'inngest',
+      queryExpansion: rawQueryExpansion,
+      filter: rawFilter,
+      mmrLambda: rawMMRLambda
+    } = await request.json();
     
     // Validate input
     if (!message || typeof message !== 'string') {
       return new NextResponse('Message is required', { status: 400 });
     }
 
-    console.log(`💬 Chat request: "${message.substring(0, 50)}..." for domain: ${domain}`);
+    const domains: string[] = Array.isArray(domain) ? domain : [domain];
+    if (domains.length === 0 || domains.some(name => typeof name !== 'string')) {
+      return new NextResponse('domain must be a domain name or a list of domain names', { status: 400 });
+    }
+
+    let queryExpansion: RAGQueryOptions['queryExpansion'];
+    let filter: SearchFilter | undefined;
+    let mmrLambda: number | undefined;
+    try {
+      queryExpansion = parseQueryExpansion(rawQueryExpansion);
+      filter = parseSearchFilter(rawFilter);
+      mmrLambda = parseMMRLambda(rawMMRLambda);
+    } catch (error) {
+      return new NextResponse(error instanceof Error ? error.message : 'Invalid request', { status: 400 });
+    }
+
+    console.log(`💬 Chat request: "${message.substring(0, 50)}..." for domain: ${domains.join(', ')}`);
 
     // Generate streaming response
-    const { completion, sources } = await generateRAGResponse(message, domain);
+    const { completion, sources, context, confidence } = await generateRAGResponse(message, domains.length > 1 ? domains : domains[0], { queryExpansion, filter, mmrLambda });
 
     const encoder = new TextEncoder();
     let accumulatedContent = '';
@@ -28,14 +54,14 @@ export async function POST(request: NextRequest) {
           // Send initial metadata
           const metadata = {
             type: 'metadata',
-            sources: sources
+            sources: sources,
+            context, // chunks and tokens packed into the prompt
+            confidence
           };
           controller.enqueue(encoder.encode(`data: ${JSON.stringify(metadata)}\n\n`));
           
           // Stream the completion
-          for await (const chunk of completion) {
-            const content = chunk.choices[0]?.delta?.content || '';
-            
+          for await (const content of completion) {
             if (content) {
               accumulatedContent += content;
               const data = { type: 'content', content };
@@ -57,7 +83,7 @@ export async function POST(request: NextRequest) {
             if (matches) {
               matches.forEach(url => {
                 const cleanUrl = url.replace(/[.,;:!?\]\)]*$/, '').replace(/#.*$/, '');
-                if (cleanUrl.length > 20 && !sources.includes(cleanUrl)) {
+                if (cleanUrl.length > 20 && !sources.some(({ source }) => source === cleanUrl)) {
                   additionalUrls.add(cleanUrl);
                 }
               });
@@ -65,7 +91,10 @@ export async function POST(request: NextRequest) {
           });
 
           // Combine original sources with additional URLs found in response
-          const finalSources = [...sources, ...Array.from(additionalUrls)];
+          const finalSources: SourceReference[] = [
+            ...sources,
+            ...Array.from(additionalUrls, source => ({ source, domain: domains[0] }))
+          ];
 
           // Send completion signal with final sources
           const completionEvent = {
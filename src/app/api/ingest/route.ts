@@ -1,6 +1,9 @@
 import { NextRequest } from 'next/server';
-import { processDocumentText, ingestDocuments } from '@/lib/docs';
-import { TECH_DOMAINS, getDomainConfig } from '@/lib/config';
+import { chunkSourceText, fetchLlmsTxtDocuments, getTextSource, ingestDocuments } from '@/lib/docs';
+import { extractDocumentText, isSupportedFormat } from '@/lib/fileFormats';
+import { isLlmsTxtIndexUrl } from '@/lib/llmsTxt';
+import { TECH_DOMAINS, UPLOAD_FORMATS, getDomainConfig } from '@/lib/config';
+import type { DocumentChunk, SourceDocument } from '@/types';
 
 export const runtime = 'nodejs';
 
@@ -11,6 +14,7 @@ export async function POST(request: NextRequest) {
     const files = formData.getAll('files') as File[];
     const url = formData.get('url') as string;
     const text = formData.get('text') as string;
+    const textName = formData.get('textName') as string | null;
 
     // Validate input
     if (!files.length && !url && !text) {
@@ -21,31 +25,50 @@ export async function POST(request: NextRequest) {
 
     console.log(`📥 Ingestion request for domain: ${domain}`);
 
-    const documents: Array<{ content: string; source: string }> = [];
+    const documents: SourceDocument[] = [];
 
     // Process files
     for (const file of files) {
-      if (!file.type.includes('text') && !file.name.endsWith('.md') && !file.name.endsWith('.txt')) {
+      if (!isSupportedFormat(file.name, file.type)) {
         return Response.json({ 
-          error: `Unsupported file type: ${file.type}. Please use text, markdown, or plain text files.` 
+          error: `Unsupported file type: ${file.type}. Please use one of: ${Object.keys(UPLOAD_FORMATS).join(', ')}.` 
         }, { status: 400 });
       }
 
-      const content = await file.text();
-      documents.push({
-        content,
-        source: file.name
-      });
+      try {
+        const content = await extractDocumentText(new Uint8Array(await file.arrayBuffer()), file.name, file.type);
+        documents.push({
+          content,
+          source: file.name
+        });
+      } catch (error) {
+        return Response.json({ 
+          error: error instanceof Error ? error.message : 'Unknown error' 
+        }, { status: 400 });
+      }
     }
 
-    // Process URL
-    if (url) {
+    // Process URL (an llms.txt index brings in every document it links to)
+    if (url && isLlmsTxtIndexUrl(url)) {
+      try {
+        documents.push(...await fetchLlmsTxtDocuments(url));
+      } catch (error) {
+        return Response.json({ 
+          error: `Failed to fetch llms.txt documents: ${error instanceof Error ? error.message : 'Unknown error'}` 
+        }, { status: 400 });
+      }
+    } else if (url) {
       try {
         const response = await fetch(url);
         if (!response.ok) {
           throw new Error(`Failed to fetch: ${response.statusText}`);
         }
-        const content = await response.text();
+        // Known formats (HTML, PDF, ...) are converted like uploads; anything else is read as text
+        const fileName = new URL(response.url || url).pathname;
+        const contentType = response.headers.get('content-type') || '';
+        const content = isSupportedFormat(fileName, contentType)
+          ? await extractDocumentText(new Uint8Array(await response.arrayBuffer()), fileName, contentType, response.url || url)
+          : await response.text();
         documents.push({
           content,
           source: url
@@ -57,11 +80,11 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Process direct text
+    // Process direct text (named text replaces its previous version, unnamed text is kept per content)
     if (text) {
       documents.push({
         content: text,
-        source: 'Direct input'
+        source: getTextSource(text, textName || undefined)
       });
     }
 
@@ -77,15 +100,11 @@ export async function POST(request: NextRequest) {
       };
     }
 
-    // Process and ingest documents
-    const allChunks: Array<{
-      content: string;
-      source: string;
-      section: string;
-    }> = [];
+    // Process and ingest documents (with the domain's chunking strategy, if it sets one)
+    const allChunks: DocumentChunk[] = [];
 
     for (const doc of documents) {
-      const chunks = processDocumentText(doc.content, doc.source);
+      const chunks = await chunkSourceText(doc.content, doc.source, domain, 'custom', doc.page);
       allChunks.push(...chunks);
     }
 
@@ -98,6 +117,7 @@ export async function POST(request: NextRequest) {
       success: true,
       domain,
       chunks: result.chunks,
+      changes: result.changes,
       message: `Successfully ingested ${result.chunks} chunks into ${domain} domain`
     });
 
@@ -115,7 +135,7 @@ export async function POST(request: NextRequest) {
 export async function GET() {
   return Response.json({
     info: 'Document Ingestion API',
-    supportedFormats: ['text/plain', '.md', '.txt'],
+    supportedFormats: [...new Set(Object.values(UPLOAD_FORMATS)), ...Object.keys(UPLOAD_FORMATS)],
     maxFileSize: '10MB',
     domains: Object.keys(TECH_DOMAINS)
   });
@@ -7,12 +7,15 @@ import { Badge } from '@/components/ui/badge';
 import { MessageBubble } from './message-bubble';
 import { Send, Loader2, Zap, MessageSquare, ExternalLink } from 'lucide-react';
 import { MarkdownRenderer } from './markdown-renderer';
-import type { ChatMessage } from '@/types';
+import { getDomainConfig } from '@/lib/config';
+import type { ChatMessage, ConfidenceAssessment, ContextUsage, SourceReference } from '@/types';
 
 interface StreamData {
   type: 'metadata' | 'content' | 'done' | 'error' | 'completion';
   content?: string;
-  sources?: string[];
+  sources?: SourceReference[];
+  context?: ContextUsage;
+  confidence?: ConfidenceAssessment;
   domain?: string;
   timestamp?: string;
   error?: string;
@@ -65,7 +68,7 @@ export function ChatInterface({ selectedDomain = 'inngest' }: ChatInterfaceProps
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [streamingContent, setStreamingContent] = useState('');
-  const [currentSources, setCurrentSources] = useState<string[]>([]);
+  const [currentSources, setCurrentSources] = useState<SourceReference[]>([]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -123,7 +126,7 @@ export function ChatInterface({ selectedDomain = 'inngest' }: ChatInterfaceProps
       const decoder = new TextDecoder();
       const assistantMessageId = Date.now().toString();
       let accumulatedContent = ''; // Local variable to track content
-      let messageSources: string[] = [];
+      let messageSources: SourceReference[] = [];
 
       while (true) {
         const { done, value } = await reader.read();
@@ -312,11 +315,17 @@ export function ChatInterface({ selectedDomain = 'inngest' }: ChatInterfaceProps
                     </span>
                   </div>
                   <div className="flex flex-wrap gap-1">
-                    {currentSources.map((source, index) => {
+                    {currentSources.map(({ source, domain, title: pageTitle, headings, pages }, index) => {
                       const isUrl = source.startsWith('http://') || source.startsWith('https://');
+                      const domainLabel = (
+                        <span className="text-muted-foreground mr-1" title={`Domain: ${domain}`}>
+                          {getDomainConfig(domain)?.icon || '📚'} {domain} ·
+                        </span>
+                      );
                       
                       if (isUrl) {
-                        const title = getSourceTitle(source);
+                        const label = headings?.length ? headings.join(' › ') : pageTitle || getSourceTitle(source);
+                        const title = pages ? `${label}, ${pages}` : label;
                         return (
                           <Badge 
                             key={index} 
@@ -324,6 +333,7 @@ export function ChatInterface({ selectedDomain = 'inngest' }: ChatInterfaceProps
                             className="text-xs cursor-pointer hover:bg-muted" 
                             title={source}
                           >
+                            {domainLabel}
                             {title}
                           </Badge>
                         );
@@ -331,7 +341,8 @@ export function ChatInterface({ selectedDomain = 'inngest' }: ChatInterfaceProps
                       
                       return (
                         <Badge key={index} variant="outline" className="text-xs">
-                          {source}
+                          {domainLabel}
+                          {pages ? `${source}, ${pages}` : source}
                         </Badge>
                       );
                     })}
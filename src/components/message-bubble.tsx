@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { useState } from 'react';
 import { Copy, Check, ExternalLink, ChevronDown, User, Bot } from 'lucide-react';
 import { MarkdownRenderer } from './markdown-renderer';
+import { getDomainConfig } from '@/lib/config';
 import type { ChatMessage } from '@/types';
 
 interface MessageBubbleProps {
@@ -117,24 +118,33 @@ export function MessageBubble({ message }: MessageBubbleProps) {
             
             {showSources && (
               <div className="mt-3 space-y-2">
-                {message.sources.map((source, index) => {
+                {message.sources.map(({ source, domain, title: pageTitle, headings, anchor, pages }, index) => {
+                  // Every source is labeled with the domain it was retrieved from
+                  const domainLabel = (
+                    <Badge variant="outline" className="text-[10px] px-1 py-0 flex-shrink-0" title={`Domain: ${domain}`}>
+                      {getDomainConfig(domain)?.icon || '📚'} {domain}
+                    </Badge>
+                  );
+
                   // Improved URL detection - handle more cases
                   const isUrl = source.startsWith('http://') || source.startsWith('https://') || source.includes('inngest.com');
                   
                   // Handle different source types
                   if (isUrl && (source.startsWith('http://') || source.startsWith('https://'))) {
-                    // Full URL - make it clickable with readable title
-                    const title = getSourceTitle(source);
+                    // Full URL - link to the matched heading, labeled with its breadcrumb or the page title
+                    const label = headings?.length ? headings.join(' › ') : pageTitle || getSourceTitle(source);
+                    const title = pages ? `${label}, ${pages}` : label;
                     return (
                       <a
                         key={index}
-                        href={source}
+                        href={anchor ? `${source}#${anchor}` : source}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="flex items-center gap-2 text-xs text-blue-600 hover:text-blue-800 hover:bg-blue-50 p-2 rounded-md transition-colors group/link"
                         title={source}
                       >
                         <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                        {domainLabel}
                         <span className="break-all">{title}</span>
                       </a>
                     );
@@ -152,6 +162,7 @@ export function MessageBubble({ message }: MessageBubbleProps) {
                         title={fullUrl}
                       >
                         <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                        {domainLabel}
                         <span className="break-all">{title}</span>
                       </a>
                     );
@@ -160,6 +171,7 @@ export function MessageBubble({ message }: MessageBubbleProps) {
                     const sectionName = source.replace('Inngest Documentation: ', '').trim();
                     return (
                       <div key={index} className="flex items-center gap-2 p-2 bg-blue-50 rounded-md">
+                        {domainLabel}
                         <Badge variant="secondary" className="text-xs bg-blue-100 text-blue-800">
                           📚 {sectionName}
                         </Badge>
@@ -167,11 +179,12 @@ export function MessageBubble({ message }: MessageBubbleProps) {
                     );
                   }
                   
-                  // Default case - generic badge
+                  // Default case - generic badge (with the cited pages of PDFs)
                   return (
                     <div key={index} className="flex items-center gap-2">
+                      {domainLabel}
                       <Badge variant="outline" className="text-xs">
-                        {source}
+                        {pages ? `${source}, ${pages}` : source}
                       </Badge>
                     </div>
                   );
@@ -8,12 +8,14 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Upload, Link, FileText, Loader2, Check, X, AlertCircle } from 'lucide-react';
-import { getActiveDomains } from '@/lib/config';
+import { UPLOAD_FORMATS, getActiveDomains } from '@/lib/config';
+import type { IngestionChanges } from '@/types';
 
 interface UploadResult {
   success: boolean;
   domain: string;
   chunks: number;
+  changes?: IngestionChanges;
   message: string;
   error?: string;
 }
@@ -27,6 +29,7 @@ export function UploadInterface() {
   const [files, setFiles] = useState<FileList | null>(null);
   const [url, setUrl] = useState('');
   const [text, setText] = useState('');
+  const [textName, setTextName] = useState('');
   const [customDomainName, setCustomDomainName] = useState('');
 
   const activeDomains = getActiveDomains();
@@ -68,6 +71,9 @@ export function UploadInterface() {
             throw new Error('Please enter text content');
           }
           formData.append('text', text.trim());
+          if (textName.trim()) {
+            formData.append('textName', textName.trim());
+          }
           break;
       }
 
@@ -88,6 +94,7 @@ export function UploadInterface() {
       setFiles(null);
       setUrl('');
       setText('');
+      setTextName('');
       if (selectedDomain === 'custom') {
         setCustomDomainName('');
       }
@@ -172,12 +179,12 @@ export function UploadInterface() {
               <Input
                 type="file"
                 multiple
-                accept=".txt,.md,.markdown"
+                accept={Object.keys(UPLOAD_FORMATS).join(',')}
                 onChange={(e) => setFiles(e.target.files)}
                 className="file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium"
               />
               <p className="text-xs text-muted-foreground">
-                Supported formats: .txt, .md, .markdown
+                Supported formats: {Object.keys(UPLOAD_FORMATS).join(', ')}
               </p>
             </div>
             <Button 
@@ -244,6 +251,17 @@ export function UploadInterface() {
                 Paste markdown or plain text documentation
               </p>
             </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Name (optional)</label>
+              <Input
+                placeholder="e.g. Deployment runbook"
+                value={textName}
+                onChange={(e) => setTextName(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Text pasted again under the same name replaces the previous version
+              </p>
+            </div>
             <Button 
               onClick={() => handleUpload('text')}
               disabled={!text.trim() || isUploading}
@@ -300,6 +318,11 @@ export function UploadInterface() {
                     <Badge variant="outline">
                       {uploadResult.chunks} chunks
                     </Badge>
+                    {uploadResult.changes && (
+                      <Badge variant="outline">
+                        +{uploadResult.changes.added} / ~{uploadResult.changes.updated} / -{uploadResult.changes.deleted}
+                      </Badge>
+                    )}
                   </div>
                 )}
               </div>
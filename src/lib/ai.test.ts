@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { getChunkId, searchDomains } from './ai';
+import { FakeProvider } from './modelProvider';
+import { setUpTestEnvironment, type TestEnvironment } from './testEnvironment';
+import { getVectorStore } from './vectorStore';
+import type { DocumentChunk } from '@/types';
+
+const QUERY = 'how do retries work';
+const provider = new FakeProvider([], 64);
+
+// A unit vector whose cosine similarity with `target` is exactly `similarity`
+function vectorWithSimilarity(target: number[], similarity: number, seed: number): number[] {
+  const other = target.map((_, index) => Math.sin(index * 12.9898 + seed));
+  const dot = other.reduce((sum, value, index) => sum + value * target[index], 0);
+  const orthogonal = other.map((value, index) => value - dot * target[index]);
+  const norm = Math.sqrt(orthogonal.reduce((sum, value) => sum + value * value, 0));
+  return target.map((value, index) => similarity * value + Math.sqrt(1 - similarity ** 2) * orthogonal[index] / norm);
+}
+
+// Scores of each domain's stored chunks against QUERY
+const SIMILARITIES: Record<string, number[]> = {
+  'weak-single': [0.3],
+  strong: [0.9, 0.8, 0.7],
+  tied: [0.95, 0.95]
+};
+
+async function storeSearchChunks(domain: string, similarities: number[]): Promise<void> {
+  const [queryVector] = await provider.embed('', [QUERY]);
+  await getVectorStore().upsert(domain, similarities.map((similarity, index) => ({
+    id: `${domain}-${index}`,
+    values: vectorWithSimilarity(queryVector, similarity, index + 1),
+    metadata: { content: `${domain} chunk ${index}`, source: `${domain}.md` }
+  })));
+}
+
+describe('searchDomains', () => {
+  let environment: TestEnvironment;
+
+  before(async () => {
+    environment = await setUpTestEnvironment('ai-test', {
+      provider,
+      domains: Object.fromEntries(Object.keys(SIMILARITIES).map(domain =>
+        [domain, { retrieval: { minScore: 0.2, hybrid: { enabled: false } } }]
+      ))
+    });
+    for (const [domain, similarities] of Object.entries(SIMILARITIES)) {
+      await storeSearchChunks(domain, similarities);
+    }
+  });
+
+  after(() => environment.restore());
+
+  it('does not rank a domain\'s only weak result as its best possible hit', async () => {
+    const results = await searchDomains(QUERY, ['weak-single', 'strong'], 4);
+
+    assert.deepEqual(results.slice(0, 2).map(result => result.id), ['strong-0', 'strong-1']);
+    const weak = results.find(result => result.id === 'weak-single-0');
+    const normalizedScore = Number(weak?.metadata?.normalizedScore);
+    assert.ok(normalizedScore < 0.2, `normalized ${normalizedScore}`);
+  });
+
+  it('scales equal scores from minScore instead of mapping them to 1', async () => {
+    const results = await searchDomains(QUERY, ['tied', 'weak-single'], 3);
+    const tied = results.filter(result => result.metadata?.domain === 'tied');
+
+    assert.equal(tied.length, 2);
+    tied.forEach(result => assert.ok(Math.abs(Number(result.metadata?.normalizedScore) - 0.9375) < 1e-6));
+    assert.equal(results[0].metadata?.domain, 'tied');
+  });
+});
+
+describe('getChunkId', () => {
+  const chunk = (headings: string[], anchor: string, chunkIndex = 0): DocumentChunk => ({
+    content: '# Functions › Retries\n\nSet `retries` on the function.',
+    metadata: { source: 'guide.md', section: 'Functions', subsection: 'Retries', headings, anchor, type: 'custom', chunkIndex, domain: 'test' }
+  });
+
+  it('tells apart identical text under different deeper headings', () => {
+    const first = getChunkId(chunk(['Functions', 'Retries', 'Example'], 'example'));
+    const second = getChunkId(chunk(['Functions', 'Retries', 'Example'], 'example-1'));
+    const third = getChunkId(chunk(['Functions', 'Retries', 'Limits'], 'limits'));
+
+    assert.equal(new Set([first, second, third]).size, 3);
+  });
+
+  it('does not depend on the chunk\'s position in its section', () => {
+    assert.equal(
+      getChunkId(chunk(['Functions', 'Retries', 'Example'], 'example', 0)),
+      getChunkId(chunk(['Functions', 'Retries', 'Example'], 'example', 3))
+    );
+  });
+});
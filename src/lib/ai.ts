@@ -1,64 +1,78 @@
-import { Pinecone } from '@pinecone-database/pinecone';
-import OpenAI from 'openai';
-import { getPineconeConfig, getOpenAIConfig, TECH_DOMAINS } from './config';
-import type { VectorSearchResult, DocumentChunk } from '@/types';
-
-// Lazy initialization of clients
-let pineconeClient: Pinecone | null = null;
-let openaiClient: OpenAI | null = null;
-let indexClient: ReturnType<Pinecone['index']> | null = null;
-
-function getPineconeClient(): Pinecone {
-  if (!pineconeClient) {
-    const config = getPineconeConfig();
-    pineconeClient = new Pinecone({
-      apiKey: config.apiKey
-    });
-  }
-  return pineconeClient;
+import { createHash } from 'crypto';
+import {
+  FEDERATED_SEARCH_CONFIG,
+  getModelConfig,
+  HYBRID_SEARCH_CONFIG,
+  MMR_CONFIG,
+  NEIGHBOR_EXPANSION_CONFIG,
+  QUERY_EXPANSION_CONFIG,
+  RERANK_CONFIG,
+  SEARCH_CONFIG,
+  TECH_DOMAINS
+} from './config';
+import { assessConfidence, buildRefusal, LOW_CONFIDENCE_WARNING, suggestRelatedTopics } from './confidence';
+import { buildContext, getContextBudget } from './context';
+import { generateEmbedding, generateEmbeddings } from './embeddings';
+import { getLexicalIndex, reciprocalRankFusion } from './lexicalIndex';
+import { diversifyResults } from './mmr';
+import { getModelForTask, getModelProvider } from './modelProvider';
+import { expandNeighbors } from './neighborExpansion';
+import { expandQuery } from './queryTransform';
+import { rerankResults } from './rerank';
+import { matchesSearchFilter, matchesSourcePrefix, toMetadataFilter } from './searchFilter';
+import {
+  cosineSimilarity,
+  getVectorStore,
+  type VectorMatch,
+  type VectorMetadata,
+  type VectorRecord
+} from './vectorStore';
+import type {
+  ConfidenceAssessment,
+  ContextUsage,
+  DocumentChunk,
+  ExpertiseDomain,
+  IngestionChanges,
+  RAGQueryOptions,
+  SearchFilter,
+  SourceReference,
+  VectorSearchResult
+} from '@/types';
+
+function toSearchResult(match: VectorMatch): VectorSearchResult {
+  return {
+    id: match.id,
+    content: String(match.metadata.content || ''),
+    source: String(match.metadata.source || ''),
+    score: match.score,
+    metadata: match.metadata
+  };
 }
 
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const config = getOpenAIConfig();
-    openaiClient = new OpenAI({
-      apiKey: config.apiKey
-    });
-  }
-  return openaiClient;
+// Domain overrides of the global search defaults
+function resolveSearchSettings(domainConfig: ExpertiseDomain) {
+  return {
+    topK: domainConfig.retrieval?.topK ?? SEARCH_CONFIG.topK,
+    minScore: domainConfig.retrieval?.minScore ?? SEARCH_CONFIG.minScore
+  };
 }
 
-function getIndexClient() {
-  if (!indexClient) {
-    const config = getPineconeConfig();
-    indexClient = getPineconeClient().index(config.indexName);
-  }
-  return indexClient;
+// Domain overrides of the answer model's defaults and token budget
+function resolveGenerationSettings(domainConfig: ExpertiseDomain, model: string) {
+  const budget = getContextBudget(model);
+  return {
+    temperature: domainConfig.generation?.temperature ?? getModelConfig().temperature,
+    maxTokens: domainConfig.generation?.maxTokens ?? budget.answerTokens,
+    contextTokens: domainConfig.generation?.contextTokens ?? budget.contextTokens
+  };
 }
 
-// Generate embeddings using OpenAI
-export async function generateEmbedding(text: string): Promise<number[]> {
-  try {
-    const openai = getOpenAIClient();
-    const config = getOpenAIConfig();
-    const response = await openai.embeddings.create({
-      model: config.embeddingModel,
-      input: text.substring(0, 8000) // Token limit safety
-    });
-    
-    return response.data[0].embedding;
-  } catch (error) {
-    console.error('Error generating embedding:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Failed to generate embedding: ${errorMessage}`);
-  }
-}
-
-// Search documents in Pinecone
+// Search documents with hybrid vector + keyword retrieval
 export async function searchDocuments(
   query: string,
   domain: string,
-  topK: number = getPineconeConfig().topK
+  topK?: number,
+  options: { filter?: SearchFilter; minScore?: number } = {}
 ): Promise<VectorSearchResult[]> {
   try {
     const domainConfig = TECH_DOMAINS[domain];
@@ -66,35 +80,80 @@ export async function searchDocuments(
       throw new Error(`Domain '${domain}' is not active or doesn't exist`);
     }
 
+    const settings = resolveSearchSettings(domainConfig);
+    topK = topK ?? settings.topK;
+    const minScore = options.minScore ?? settings.minScore;
+
+    const namespace = domainConfig.namespace;
+    const store = getVectorStore();
+    const hybrid = { ...HYBRID_SEARCH_CONFIG, ...domainConfig.retrieval?.hybrid };
+    const filter = options.filter;
+
     // Generate query embedding
     const queryEmbedding = await generateEmbedding(query);
     
-    // Search in domain namespace
-    const searchResponse = await getIndexClient().namespace(domainConfig.namespace).query({
+    // Search in domain namespace (only matches above the threshold take part in fusion).
+    // Source prefixes are checked after the query, so fetch extra candidates for them.
+    const lexicalIndex = hybrid.enabled ? getLexicalIndex() : null;
+    let candidateCount = lexicalIndex ? Math.max(topK, hybrid.candidates) : topK;
+    if (filter?.sourcePrefix) candidateCount *= SEARCH_CONFIG.prefixFilterOverfetch;
+
+    const matches = (await store.query(namespace, {
       vector: queryEmbedding,
-      topK,
-      includeMetadata: true,
-      includeValues: false
-    });
+      topK: candidateCount,
+      filter: toMetadataFilter(filter)
+    })).filter(match => match.score >= minScore && matchesSourcePrefix(match.metadata, filter));
+
+    let results: VectorSearchResult[];
+
+    if (!lexicalIndex) {
+      results = matches.slice(0, topK).map(toSearchResult);
+    } else {
+      // Keyword ranking catches exact identifiers that embeddings tend to miss; without
+      // a reachable index the fusion below keeps the vector ranking
+      const matchesById = new Map<string, VectorMatch>(matches.map(match => [match.id, match]));
+      const lexicalCandidates = await lexicalIndex.search(namespace, query, candidateCount).catch(error => {
+        console.warn('Keyword search failed, using vector ranking only:', error);
+        return [];
+      });
 
-    // Process and filter results
-    const results: VectorSearchResult[] = searchResponse.matches
-      ?.filter((match: unknown) => {
-        const score = (match as { score?: number }).score || 0;
-        return score >= getPineconeConfig().minScore;
-      })
-      ?.map((match: unknown) => {
-        const matchObj = match as {
-          score?: number;
-          metadata?: Record<string, unknown>;
-        };
-        return {
-          content: String(matchObj.metadata?.content || ''),
-          source: String(matchObj.metadata?.source || ''),
-          score: matchObj.score || 0,
-          metadata: matchObj.metadata
-        };
-      }) || [];
+      // Keyword-only hits are loaded from the store, filtered and scored against the query
+      const keywordOnlyIds = lexicalCandidates.map(match => match.id).filter(id => !matchesById.has(id));
+      const keywordOnly = new Map<string, VectorMatch>();
+      (await store.fetch(namespace, keywordOnlyIds)).forEach(record => {
+        if (!matchesSearchFilter(record.metadata, filter)) return;
+        keywordOnly.set(record.id, {
+          id: record.id,
+          score: cosineSimilarity(queryEmbedding, record.values),
+          metadata: record.metadata
+        });
+      });
+      const lexicalMatches = lexicalCandidates.filter(match => matchesById.has(match.id) || keywordOnly.has(match.id));
+      keywordOnly.forEach((match, id) => matchesById.set(id, match));
+
+      const fusedScores = reciprocalRankFusion([
+        { ids: matches.map(match => match.id), weight: hybrid.vectorWeight },
+        { ids: lexicalMatches.map(match => match.id), weight: hybrid.lexicalWeight }
+      ], hybrid.rrfK);
+
+      const vectorRanks = new Map(matches.map((match, index) => [match.id, index + 1]));
+      const lexicalRanks = new Map(lexicalMatches.map((match, index) => [match.id, { rank: index + 1, score: match.score }]));
+
+      results = Array.from(fusedScores.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, topK)
+        .map(([id, fusedScore]) => {
+          const result = toSearchResult(matchesById.get(id)!);
+          result.metadata = {
+            ...result.metadata,
+            fusedScore,
+            vectorRank: vectorRanks.get(id),
+            lexicalRank: lexicalRanks.get(id)?.rank,
+            lexicalScore: lexicalRanks.get(id)?.score
+          };
+          return result;
+        });
+    }
 
     console.log(`Found ${results.length} relevant documents for query: "${query.substring(0, 50)}..."`);
     return results;
@@ -106,11 +165,52 @@ export async function searchDocuments(
   }
 }
 
-// Store document chunks in Pinecone
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// Id prefix shared by every chunk of a source, so a source's vectors can be listed
+export function getSourceIdPrefix(source: string): string {
+  return `${sha256(source).substring(0, 16)}#`;
+}
+
+/**
+ * Deterministic vector id derived from the chunk's source, page, full heading
+ * path (with the deepest heading's anchor, which tells repeated titles apart)
+ * and content. Re-ingesting an unchanged chunk therefore overwrites itself
+ * instead of adding a duplicate, however its sibling sections move.
+ */
+export function getChunkId(chunk: DocumentChunk): string {
+  const { pageUrl, headings, anchor, section, subsection } = chunk.metadata;
+  const headingPath = [pageUrl, ...(headings || [section, subsection]), anchor].filter(Boolean).join(' > ');
+  const contentHash = sha256([chunk.metadata.source, headingPath, chunk.content].join('\u0000'));
+  return `${getSourceIdPrefix(chunk.metadata.source)}${contentHash.substring(0, 32)}`;
+}
+
+// The vectors are the source of truth: a keyword index that cannot be written is
+// logged and left for the next ingestion to backfill, instead of failing it
+async function updateLexicalIndex(
+  namespace: string,
+  upserts: Array<{ id: string; text: string }>,
+  deletes: string[]
+): Promise<void> {
+  const lexicalIndex = getLexicalIndex();
+  if (!lexicalIndex) return;
+  try {
+    await lexicalIndex.upsert(namespace, upserts);
+    await lexicalIndex.delete(namespace, deletes);
+  } catch (error) {
+    console.warn(`Could not update the keyword index for ${namespace}, hybrid search may miss these chunks:`, error);
+  }
+}
+
+// Store document chunks in the configured vector store.
+// Chunks of every source present in `chunks` replace that source's previous
+// chunks: unchanged ones are skipped, stale ones are deleted.
 export async function storeDocuments(
   chunks: DocumentChunk[],
   domain: string
-): Promise<number> {
+): Promise<{ chunks: number; changes: IngestionChanges }> {
   try {
     const domainConfig = TECH_DOMAINS[domain];
     if (!domainConfig) {
@@ -118,45 +218,98 @@ export async function storeDocuments(
     }
 
     const namespace = domainConfig.namespace;
-    console.log(`Storing ${chunks.length} chunks in Pinecone namespace: ${namespace}`);
-    
+    const store = getVectorStore();
+    console.log(`Storing ${chunks.length} chunks in ${store.name} namespace: ${namespace}`);
+
+    // Build records keyed by deterministic id (identical chunks collapse into one)
+    const records = new Map<string, { chunk: DocumentChunk; metadata: VectorMetadata }>();
+    for (const chunk of chunks) {
+      const id = getChunkId(chunk);
+      if (records.has(id)) continue;
+
+      const metadata: VectorMetadata = { content: chunk.content };
+      Object.entries({ ...chunk.metadata, domain }).forEach(([key, value]) => {
+        if (value !== undefined) metadata[key] = value;
+      });
+      metadata.fingerprint = sha256(JSON.stringify(metadata));
+      records.set(id, { chunk, metadata });
+    }
+
+    // Find what is already stored for each source
+    const existingIds = new Set<string>();
+    const sources = new Set(chunks.map(chunk => chunk.metadata.source));
+    let canDeleteStale = true;
+    for (const source of sources) {
+      try {
+        const ids = await store.list(namespace, { prefix: getSourceIdPrefix(source) });
+        ids.forEach(id => existingIds.add(id));
+      } catch (error) {
+        // e.g. pod-based Pinecone indexes, which cannot list by prefix
+        canDeleteStale = false;
+        console.warn(`Could not list existing vectors for ${source}, stale chunks will not be removed:`, error);
+      }
+    }
+
+    const changes: IngestionChanges = { added: 0, updated: 0, unchanged: 0, deleted: 0 };
+    const pending: string[] = [];
+
+    const overlapping = Array.from(records.keys()).filter(id => existingIds.has(id));
+    const storedRecords = new Map<string, VectorRecord>();
+    for (let i = 0; i < overlapping.length; i += 100) {
+      const fetched = await store.fetch(namespace, overlapping.slice(i, i + 100));
+      fetched.forEach(record => storedRecords.set(record.id, record));
+    }
+
+    for (const [id, record] of records) {
+      if (!existingIds.has(id)) {
+        changes.added++;
+        pending.push(id);
+      } else if (storedRecords.get(id)?.metadata.fingerprint !== record.metadata.fingerprint) {
+        changes.updated++;
+        pending.push(id);
+      } else {
+        changes.unchanged++;
+      }
+    }
+
+    // Same id means same content, so an updated record keeps its stored embedding;
+    // everything else is embedded in batched requests (cached by content hash)
+    const toEmbed = pending.filter(id => !storedRecords.get(id)?.values.length);
+    const embeddings = await generateEmbeddings(toEmbed.map(id => records.get(id)!.chunk.content));
+    const embeddingsById = new Map(toEmbed.map((id, index) => [id, embeddings[index]]));
+
     let totalStored = 0;
     const batchSize = 100;
-    
-    // Process in batches to avoid rate limits
-    for (let i = 0; i < chunks.length; i += batchSize) {
-      const batch = chunks.slice(i, i + batchSize);
-      
-      // Generate embeddings for batch
-      const vectors = await Promise.all(
-        batch.map(async (chunk, idx) => {
-          const embedding = await generateEmbedding(chunk.content);
-          return {
-            id: `${domain}-${i + idx}-${Date.now()}`,
-            values: embedding,
-            metadata: {
-              content: chunk.content,
-              ...chunk.metadata,
-              domain // This will override the domain from chunk.metadata, which is intended
-            }
-          };
-        })
-      );
-      
-      // Store in Pinecone namespace
-      await getIndexClient().namespace(namespace).upsert(vectors);
+
+    for (let i = 0; i < pending.length; i += batchSize) {
+      const vectors = pending.slice(i, i + batchSize).map(id => ({
+        id,
+        values: embeddingsById.get(id) || storedRecords.get(id)!.values,
+        metadata: records.get(id)!.metadata
+      }));
+
+      // Store in domain namespace
+      await store.upsert(namespace, vectors);
       totalStored += vectors.length;
-      
-      console.log(`Stored batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(chunks.length / batchSize)}, total: ${totalStored}`);
-      
-      // Rate limiting
-      if (i + batchSize < chunks.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+
+      console.log(`Stored batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(pending.length / batchSize)}, total: ${totalStored}`);
     }
-    
-    return totalStored;
-    
+
+    // Keep the keyword index in step with the vectors (unchanged chunks included,
+    // so an index created after the vectors, or missed by a failed write, gets backfilled)
+    await updateLexicalIndex(namespace, Array.from(records, ([id, { chunk }]) => ({ id, text: chunk.content })), []);
+
+    // Remove chunks these sources no longer produce
+    if (canDeleteStale) {
+      const staleIds = Array.from(existingIds).filter(id => !records.has(id));
+      await store.delete(namespace, staleIds);
+      await updateLexicalIndex(namespace, [], staleIds);
+      changes.deleted = staleIds.length;
+    }
+
+    console.log(`Ingestion changes: ${changes.added} added, ${changes.updated} updated, ${changes.unchanged} unchanged, ${changes.deleted} deleted`);
+    return { chunks: records.size, changes };
+
   } catch (error) {
     console.error('Error storing documents:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -164,80 +317,338 @@ export async function storeDocuments(
   }
 }
 
+// Delete every chunk of a source, e.g. a crawled page that no longer exists
+export async function removeSource(source: string, domain: string): Promise<number> {
+  try {
+    const domainConfig = TECH_DOMAINS[domain];
+    if (!domainConfig) {
+      throw new Error(`Domain '${domain}' doesn't exist`);
+    }
+
+    const store = getVectorStore();
+    const ids = await store.list(domainConfig.namespace, { prefix: getSourceIdPrefix(source) });
+    await store.delete(domainConfig.namespace, ids);
+    await updateLexicalIndex(domainConfig.namespace, [], ids);
+    return ids.length;
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to remove ${source}: ${errorMessage}`);
+  }
+}
+
+// Domain settings for query expansion, with the per-request override applied on top
+function resolveQueryExpansion(
+  domainConfig: ExpertiseDomain,
+  override: RAGQueryOptions['queryExpansion']
+) {
+  const settings = { ...QUERY_EXPANSION_CONFIG, ...domainConfig.retrieval?.queryExpansion };
+  if (typeof override === 'boolean') {
+    return { ...settings, enabled: override };
+  }
+  return override ? { ...settings, enabled: true, ...override } : settings;
+}
+
+// A request lambda turns MMR on for that request
+function resolveMMR(domainConfig: ExpertiseDomain, lambda: number | undefined) {
+  const settings = { ...MMR_CONFIG, ...domainConfig.retrieval?.mmr };
+  return lambda === undefined ? settings : { ...settings, enabled: true, lambda };
+}
+
+// Union of the result lists of several query variants, deduplicated by id and
+// ordered by reciprocal rank fusion
+function mergeResultLists(resultLists: VectorSearchResult[][], limit: number): VectorSearchResult[] {
+  const resultsById = new Map<string, VectorSearchResult>();
+  const matchedQueries = new Map<string, number>();
+
+  const rankings = resultLists.map(results => ({
+    weight: 1,
+    ids: results.map(result => {
+      const id = `${result.metadata?.domain}:${result.id || result.content}`;
+      const existing = resultsById.get(id);
+      if (!existing || result.score > existing.score) {
+        resultsById.set(id, result);
+      }
+      matchedQueries.set(id, (matchedQueries.get(id) || 0) + 1);
+      return id;
+    })
+  }));
+
+  return Array.from(reciprocalRankFusion(rankings, HYBRID_SEARCH_CONFIG.rrfK).entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([id]) => {
+      const result = resultsById.get(id)!;
+      return { ...result, metadata: { ...result.metadata, matchedQueries: matchedQueries.get(id) } };
+    });
+}
+
+/**
+ * Search several domains at once. Each domain's scores are min-max
+ * normalized (score ranges differ between corpora) and weighted, then results
+ * are merged while no domain exceeds its quota unless the others run dry.
+ * Scores without a range are scaled from the domain's minScore to 1.
+ */
+export async function searchDomains(
+  query: string,
+  domains: string[],
+  topK: number = SEARCH_CONFIG.topK,
+  options: { filter?: SearchFilter; domainQuotas?: Record<string, number> } = {}
+): Promise<VectorSearchResult[]> {
+  const perDomain = await Promise.all(domains.map(async domain => ({
+    domain,
+    results: await searchDocuments(query, domain, topK, { filter: options.filter })
+  })));
+
+  const candidates = perDomain.flatMap(({ domain, results }) => {
+    const weight = TECH_DOMAINS[domain]?.retrieval?.federation?.weight ?? 1;
+    const scores = results.map(result => result.score);
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+    // A single result (or a tie) has no range to scale by, so it is placed between
+    // the domain's minScore and a perfect match instead of counting as the best hit
+    const [floor, ceiling] = max - min > 1e-6 ? [min, max] : [resolveSearchSettings(TECH_DOMAINS[domain]).minScore, 1];
+
+    return results.map(result => ({
+      ...result,
+      metadata: {
+        ...result.metadata,
+        domain,
+        normalizedScore: Math.min(1, Math.max(0, ceiling > floor ? (result.score - floor) / (ceiling - floor) : 1)) * weight
+      }
+    }));
+  }).sort((a, b) => b.metadata.normalizedScore - a.metadata.normalizedScore);
+
+  const defaultQuota = Math.max(1, Math.ceil(topK * FEDERATED_SEARCH_CONFIG.maxShare));
+  const counts = new Map<string, number>();
+  const selected: typeof candidates = [];
+  const overflow: typeof candidates = [];
+
+  for (const candidate of candidates) {
+    const domain = candidate.metadata.domain;
+    const quota = options.domainQuotas?.[domain] ?? TECH_DOMAINS[domain]?.retrieval?.federation?.quota ?? defaultQuota;
+    const count = counts.get(domain) || 0;
+
+    if (count < quota && selected.length < topK) {
+      selected.push(candidate);
+      counts.set(domain, count + 1);
+    } else {
+      overflow.push(candidate);
+    }
+  }
+
+  // Fill remaining slots when the other domains had too few results
+  selected.push(...overflow.slice(0, topK - selected.length));
+
+  console.log(`Federated search over ${domains.join(', ')}: ${Array.from(counts, ([domain, count]) => `${domain}=${count}`).join(', ')}`);
+  return selected.sort((a, b) => b.metadata.normalizedScore - a.metadata.normalizedScore);
+}
+
+/**
+ * Retrieval pipeline behind generateRAGResponse: optional query expansion,
+ * hybrid search (across several domains if given) for every query variant,
+ * then optional reranking, MMR diversification and neighbor-chunk expansion.
+ * Settings come from the first domain.
+ */
+export async function retrieveDocuments(
+  message: string,
+  domain: string | string[],
+  options: RAGQueryOptions = {}
+): Promise<VectorSearchResult[]> {
+  const domains = Array.isArray(domain) ? domain : [domain];
+  if (domains.length === 0) {
+    throw new Error('At least one domain is required');
+  }
+  for (const name of domains) {
+    if (!TECH_DOMAINS[name]?.isActive) {
+      throw new Error(`Domain '${name}' is not active`);
+    }
+  }
+  const domainConfig = TECH_DOMAINS[domains[0]];
+
+  // Over-fetch when a reranker or MMR picks the final set
+  const { topK } = resolveSearchSettings(domainConfig);
+  const rerank = { ...RERANK_CONFIG, topN: topK, ...domainConfig.retrieval?.rerank };
+  const mmr = resolveMMR(domainConfig, options.mmrLambda);
+  const finalCount = rerank.enabled ? rerank.topN : topK;
+  const limit = Math.max(rerank.enabled ? rerank.candidates : finalCount, mmr.enabled ? mmr.candidates : 0);
+
+  const expansion = resolveQueryExpansion(domainConfig, options.queryExpansion);
+  const queries = expansion.enabled
+    ? await expandQuery(message, domainConfig, { ...expansion, model: getModelForTask('rewrite', domainConfig) })
+    : [message];
+
+  const search = (query: string) => domains.length > 1
+    ? searchDomains(query, domains, limit, options)
+    : searchDocuments(query, domains[0], limit, { filter: options.filter });
+
+  let results: VectorSearchResult[];
+  if (queries.length > 1) {
+    console.log(`Retrieving with ${queries.length} query variants`);
+    results = mergeResultLists(await Promise.all(queries.map(search)), limit);
+  } else {
+    results = await search(message);
+  }
+
+  if (rerank.enabled) {
+    // With MMR on, every candidate keeps its rerank score and MMR makes the cut
+    results = await rerankResults(message, results, rerank.provider, mmr.enabled ? results.length : rerank.topN);
+  }
+
+  if (mmr.enabled) {
+    results = await diversifyResults(message, results, mmr.lambda, finalCount);
+  }
+
+  const neighbors = { ...NEIGHBOR_EXPANSION_CONFIG, ...domainConfig.retrieval?.neighbors };
+  if (neighbors.enabled) {
+    results = await expandNeighbors(message, results, neighbors);
+  }
+
+  return results;
+}
+
+// Page citation of paged-document chunks: 'p. 12', 'pp. 12–13' or 'pp. 3, 12–14'
+function formatPages(pages: number[]): string {
+  const sorted = Array.from(new Set(pages)).sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let index = 0; index < sorted.length; index++) {
+    const start = sorted[index];
+    while (sorted[index + 1] === sorted[index] + 1) index++;
+    ranges.push(start === sorted[index] ? String(start) : `${start}–${sorted[index]}`);
+  }
+  return `${sorted.length === 1 ? 'p.' : 'pp.'} ${ranges.join(', ')}`;
+}
+
+function pagesOf(result: VectorSearchResult): number[] {
+  const { pageStart, pageEnd } = result.metadata || {};
+  if (typeof pageStart !== 'number') return [];
+  const last = typeof pageEnd === 'number' ? pageEnd : pageStart;
+  return Array.from({ length: last - pageStart + 1 }, (_, offset) => pageStart + offset);
+}
+
+// Stream fixed text, optionally followed by a model stream
+async function* textStream(text: string, rest?: AsyncIterable<string>): AsyncIterable<string> {
+  yield text;
+  if (rest) yield* rest;
+}
+
 // Generate chat response using RAG
 export async function generateRAGResponse(
   message: string,
-  domain: string
-): Promise<{ completion: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>; sources: string[] }> {
+  domain: string | string[],
+  options: RAGQueryOptions = {}
+): Promise<{
+  completion: AsyncIterable<string>;
+  sources: SourceReference[];
+  context: ContextUsage;
+  confidence: ConfidenceAssessment;
+}> {
   try {
-    const domainConfig = TECH_DOMAINS[domain];
+    // The first domain provides the system prompt when several are searched
+    const primaryDomain = Array.isArray(domain) ? domain[0] : domain;
+    const domainConfig = TECH_DOMAINS[primaryDomain];
     if (!domainConfig?.isActive) {
-      throw new Error(`Domain '${domain}' is not active`);
+      throw new Error(`Domain '${primaryDomain}' is not active`);
     }
 
+    const answerModel = getModelForTask('answer', domainConfig);
+    const generation = resolveGenerationSettings(domainConfig, answerModel);
+
     // Search for relevant context
-    const searchResults = await searchDocuments(message, domain);
-    
-    if (searchResults.length === 0) {
-      // Instead of throwing an error, provide a helpful fallback response
+    const retrievedResults = await retrieveDocuments(message, domain, options);
+
+    // Build context for LLM within the model's token budget
+    // (labeling each result's domain when several were searched)
+    const isFederated = Array.isArray(domain) && domain.length > 1;
+    const resultDomain = (result: VectorSearchResult) => String(result.metadata?.domain || primaryDomain);
+    const context = buildContext(retrievedResults, {
+      model: answerModel,
+      budget: generation.contextTokens,
+      header: result => {
+        const domainLine = isFederated ? `Domain: ${TECH_DOMAINS[resultDomain(result)]?.name || resultDomain(result)}\n` : '';
+        const pages = pagesOf(result);
+        return `${domainLine}Source: ${result.source}${pages.length > 0 ? ` (${formatPages(pages)})` : ''}\n`;
+      }
+    });
+    const searchResults = context.results;
+    const contextText = context.text;
+    console.log(`Context: ${context.usage.chunks} chunks, ${context.usage.tokens}/${generation.contextTokens} tokens (${context.usage.truncated} truncated, ${context.usage.dropped} dropped)`);
+
+    let confidence = assessConfidence(message, searchResults, contextText, {
+      minScore: resolveSearchSettings(domainConfig).minScore,
+      settings: domainConfig.confidence
+    });
+    console.log(`Confidence: ${confidence.level} (${confidence.score}), action: ${confidence.action}`);
+
+    // Nothing to ground a warned answer in, so 'warn' declines too when nothing was found
+    if (confidence.action === 'refuse' || (confidence.level === 'none' && confidence.action === 'warn')) {
+      confidence = { ...confidence, action: 'refuse' };
+
+      // Suggest what the docs do cover, from the closest chunks even below the score threshold
+      const related = retrievedResults.length > 0
+        ? retrievedResults
+        : await searchDocuments(message, primaryDomain, SEARCH_CONFIG.topK, { filter: options.filter, minScore: 0 }).catch(() => []);
+
+      return {
+        completion: textStream(buildRefusal(domainConfig, suggestRelatedTopics(related))),
+        sources: [],
+        context: context.usage,
+        confidence
+      };
+    }
+
+    if (confidence.level === 'none') {
       console.log(`No relevant documents found for query: "${message}"`);
-      
-      // Generate a helpful response asking for more specific questions
-      const completion = await getOpenAIClient().chat.completions.create({
-        model: getOpenAIConfig().chatModel,
-        temperature: getOpenAIConfig().temperature,
-        max_tokens: getOpenAIConfig().maxTokens,
+
+      // Policy 'answer': let the model ask for the details it would need
+      const completion = await getModelProvider().stream({
+        model: answerModel,
+        temperature: generation.temperature,
+        maxTokens: generation.maxTokens,
         messages: [
-          { 
-            role: 'system', 
+          {
+            role: 'system',
             content: `${domainConfig.systemPrompt}
 
-Note: The user's query didn't match specific documentation content, so provide general guidance and ask them to be more specific about their Inngest-related question.`
+Note: No documentation matched the user's question. Do not present anything as documented. Give brief general guidance if you can, say clearly that it is not backed by the documentation, and ask the user for the details (feature, API, error message, scale) that would let you find the right documentation.`
           },
-          { 
-            role: 'user', 
-            content: `I asked: "${message}"
-
-I couldn't find specific documentation that matches your question. Could you please provide more details about your Inngest-related issue? 
-
-**For production-grade guidance, consider asking about:**
-
-**🏗️ Scale & Performance:**
-- "How do I process 1000+ items efficiently with Inngest?"
-- "What are optimal batch sizes for database operations?"
-- "How do I handle memory issues with large datasets?"
-
-**🛡️ Error Handling & Reliability:**
-- "How do I implement retry strategies for failed batches?"
-- "What's the best way to handle partial failures?"
-- "How do I set up dead letter queues for failed events?"
-
-**⚙️ Configuration & Optimization:**
-- "What concurrency limits should I use for my use case?"
-- "How do I optimize function timeouts for production?"
-- "What are best practices for database connection pooling?"
-
-**🚀 Deployment & Monitoring:**
-- "How do I deploy Inngest functions to production?"
-- "What monitoring should I implement for reliability?"
-- "How do I test Inngest functions at scale?"
-
-The more specific you can be about your **production scenario, scale, and constraints**, the better I can provide enterprise-ready solutions with concrete configurations and performance guidance.`
-          }
-        ],
-        stream: true
+          { role: 'user', content: message }
+        ]
       });
 
-      return { completion, sources: ['inngest-general-help'] };
+      return { completion, sources: [], context: context.usage, confidence };
     }
 
-    // Build context for LLM
-    const contextText = searchResults
-      .map(result => `Source: ${result.source}\nContent: ${result.content}`)
-      .join('\n\n---\n\n');
+    // The pages chunks were cut from are the primary citations, in relevance order
+    const pageSources = new Map<string, SourceReference>();
+    searchResults.forEach(result => {
+      const pageUrl = result.metadata?.pageUrl;
+      if (typeof pageUrl !== 'string' || pageSources.has(pageUrl)) return;
+      const { pageTitle, headings, anchor } = result.metadata || {};
+      pageSources.set(pageUrl, {
+        source: pageUrl,
+        domain: resultDomain(result),
+        ...(typeof pageTitle === 'string' && { title: pageTitle }),
+        ...(Array.isArray(headings) && { headings: headings.map(String) }),
+        ...(typeof anchor === 'string' && { anchor })
+      });
+    });
+
+    // Paged documents (PDF) are cited with the pages the chunks came from
+    const documentPages = new Map<string, { domain: string; pages: number[] }>();
+    searchResults.forEach(result => {
+      const pages = pagesOf(result);
+      if (pages.length === 0 || typeof result.metadata?.pageUrl === 'string') return;
+      const entry = documentPages.get(result.source) || { domain: resultDomain(result), pages: [] };
+      entry.pages.push(...pages);
+      documentPages.set(result.source, entry);
+    });
+    documentPages.forEach(({ domain: documentDomain, pages }, source) => {
+      if (!pageSources.has(source)) pageSources.set(source, { source, domain: documentDomain, pages: formatPages(pages) });
+    });
 
-    // Extract URLs from search results content with broader patterns
-    const allUrls = new Set<string>();
+    // Extract URLs from the content of chunks without a page (url → domain)
+    const allUrls = new Map<string, string>();
     
     // URLs to exclude from sources (raw ingestion sources, not user-friendly)
     const excludeUrls = new Set([
@@ -246,6 +657,8 @@ The more specific you can be about your **production scenario, scale, and constr
     ]);
     
     searchResults.forEach(result => {
+      if (typeof result.metadata?.pageUrl === 'string') return;
+
       // Look for any Inngest URLs (docs, guides, blog, etc.)
       const urlPatterns = [
         /https:\/\/(?:www\.)?inngest\.com\/docs\/[^\s\)\]\,\;\"\'\`]+/g,
@@ -273,60 +686,62 @@ The more specific you can be about your **production scenario, scale, and constr
             }
             
             // Only include substantial URLs that aren't raw ingestion sources
-            if (cleanUrl.length > 20 && !excludeUrls.has(cleanUrl)) {
-              allUrls.add(cleanUrl);
+            if (cleanUrl.length > 20 && !excludeUrls.has(cleanUrl) && !allUrls.has(cleanUrl)) {
+              allUrls.set(cleanUrl, resultDomain(result));
             }
           });
         }
       });
       
       // Also extract sources from metadata if available, but exclude raw ingestion URLs
-      if (result.source && result.source.startsWith('http') && !excludeUrls.has(result.source)) {
-        allUrls.add(result.source);
+      if (result.source && result.source.startsWith('http') && !excludeUrls.has(result.source) && !allUrls.has(result.source)) {
+        allUrls.set(result.source, resultDomain(result));
       }
     });
 
     // Convert to array and sort for consistent display
-    let sources = Array.from(allUrls).sort();
+    let sources: SourceReference[] = [
+      ...pageSources.values(),
+      ...Array.from(allUrls.keys())
+        .filter(url => !pageSources.has(url))
+        .sort()
+        .map(url => ({ source: url, domain: allUrls.get(url)! }))
+    ];
 
     // If no URLs found, be more creative with section-based sources
     if (sources.length === 0) {
-      const sections = new Set<string>();
+      const sections = new Map<string, string>(); // section → domain
+      const addSection = (section: string, result: VectorSearchResult) => {
+        if (!sections.has(section)) sections.set(section, resultDomain(result));
+      };
       searchResults.forEach(result => {
-        // Try to extract section information
-        if (result.metadata?.section && typeof result.metadata.section === 'string') {
-          sections.add(result.metadata.section);
+        // Try to extract section information, preferably the full heading breadcrumb
+        if (Array.isArray(result.metadata?.headings) && result.metadata.headings.length > 0) {
+          addSection(result.metadata.headings.join(' › '), result);
+        } else if (result.metadata?.section && typeof result.metadata.section === 'string') {
+          addSection(result.metadata.section, result);
         }
         // Also try to extract from source metadata
         if (result.metadata?.source && typeof result.metadata.source === 'string') {
-          sections.add(result.metadata.source);
+          addSection(result.metadata.source, result);
         }
         // Try to create meaningful source references - BUT EXCLUDE raw ingestion URLs
         if (result.source && typeof result.source === 'string' && !excludeUrls.has(result.source)) {
-          sections.add(result.source);
+          addSection(result.source, result);
         }
       });
       
       // Convert sections to documentation references, filtering out excluded URLs
       sources = Array.from(sections)
-        .filter(section => !excludeUrls.has(section)) // Additional filter to be safe
-        .map(section => {
-          if (section.startsWith('http')) {
-            return section;
-          }
-          return `Inngest Documentation: ${section}`;
-        });
-    }
-
-    // If still no sources, use the search results themselves as references
-    if (sources.length === 0) {
-      sources = searchResults.slice(0, 3).map((result, index) => 
-        `Inngest Docs Reference ${index + 1}: ${result.content.substring(0, 50)}...`
-      );
+        .filter(([section]) => !excludeUrls.has(section)) // Additional filter to be safe
+        .map(([section, sectionDomain]) => ({
+          source: section.startsWith('http') ? section : `Inngest Documentation: ${section}`,
+          domain: sectionDomain
+        }));
     }
 
     // Final safety filter to remove any excluded URLs that might have slipped through
-    sources = sources.filter(source => {
+    sources = sources.filter(({ source }) => {
       // If it's a URL, check if it's in the exclude list
       if (source.startsWith('http')) {
         return !excludeUrls.has(source);
@@ -336,10 +751,10 @@ The more specific you can be about your **production scenario, scale, and constr
     });
 
     // Generate streaming response
-    const completion = await getOpenAIClient().chat.completions.create({
-      model: getOpenAIConfig().chatModel,
-      temperature: getOpenAIConfig().temperature,
-      max_tokens: getOpenAIConfig().maxTokens,
+    const completion = await getModelProvider().stream({
+      model: answerModel,
+      temperature: generation.temperature,
+      maxTokens: generation.maxTokens,
       messages: [
         { 
           role: 'system', 
@@ -361,7 +776,7 @@ IMPORTANT INSTRUCTIONS:
 - If a feature isn't in the documentation, do not mention it
 - Provide working code examples directly from or adapted from the documentation
 - Use specific configuration values only if they appear in the documentation
-- If information is missing, recommend checking the latest Inngest documentation
+- If information is missing, recommend checking the latest Inngest documentation${confidence.action === 'warn' ? '\n- The documentation found only partly matches this question: say explicitly which parts it does not cover' : ''}
 
 Please provide a comprehensive response following the structured format with:
 1. **Immediate Solution** - Direct fix based on documentation
@@ -372,11 +787,16 @@ Please provide a comprehensive response following the structured format with:
 
 Always cite the specific documentation sections you're referencing and ensure all sources are included in your response.`
         }
-      ],
-      stream: true
+      ]
     });
 
-    return { completion, sources };
+    return {
+      // Policy 'warn': the answer opens with a visible caveat
+      completion: confidence.action === 'warn' ? textStream(LOW_CONFIDENCE_WARNING, completion) : completion,
+      sources,
+      context: context.usage,
+      confidence
+    };
     
   } catch (error) {
     console.error('Error generating RAG response:', error);
@@ -389,14 +809,12 @@ Always cite the specific documentation sections you're referencing and ensure al
  * Classify if a query is generic/testing or a specific technical question
  * Uses a cheap, fast AI call to determine intent
  */
-export async function classifyQuery(message: string): Promise<'generic' | 'specific'> {
+export async function classifyQuery(message: string, domain?: string): Promise<'generic' | 'specific'> {
   try {
-    const openai = getOpenAIClient();
-    
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini', // Cheaper and faster than main models
+    const response = await getModelProvider().complete({
+      model: getModelForTask('classify', domain ? TECH_DOMAINS[domain] : undefined), // Cheaper and faster than main models
       temperature: 0, // Deterministic for classification
-      max_tokens: 10, // Very short response
+      maxTokens: 10, // Very short response
       messages: [
         {
           role: 'system',
@@ -417,7 +835,7 @@ Respond with only one word: "generic" or "specific"`
       ]
     });
 
-    const classification = response.choices[0]?.message?.content?.toLowerCase().trim() || 'specific';
+    const classification = response.toLowerCase().trim() || 'specific';
     
     // Safety fallback - if not clearly "generic", treat as "specific"
     return classification === 'generic' ? 'generic' : 'specific';
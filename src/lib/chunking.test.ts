@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { chunkDocument, type ChunkingOptions } from './chunking';
+import { countTokens } from './context';
+import { FakeProvider, setModelProvider } from './modelProvider';
+
+const SOURCE = { source: 'semantic-test.md', domain: 'semantic-test', type: 'custom' as const };
+
+// Three topics in one paragraph: sentences share words within a topic, none across
+const TEXT = `# Retries
+
+Failed steps are retried automatically. Retried steps back off exponentially between retries. Retries of failed steps stop after the retry limit.
+Billing invoices are emailed monthly. Invoices list billing usage per plan. Billing invoices can be downloaded.
+Concurrency keys limit running functions. Concurrency keys group running functions per tenant.`;
+
+const OPTIONS: ChunkingOptions = {
+  strategy: 'semantic',
+  maxChunkSize: 1000,
+  chunkOverlap: 0,
+  minChunkSize: 10,
+  maxChunkTokens: 256,
+  chunkOverlapTokens: 0,
+  semanticThreshold: 0.2,
+  semanticMinChunkSize: 50
+};
+
+async function semanticChunks(options: Partial<ChunkingOptions> = {}): Promise<string[]> {
+  const chunks = await chunkDocument(TEXT, SOURCE, { ...OPTIONS, ...options });
+  return chunks.map(chunk => chunk.content);
+}
+
+describe('semantic chunking', () => {
+  before(() => {
+    process.env.MODEL_PROVIDER = 'fake';
+    process.env.EMBEDDING_CACHE = 'none';
+    setModelProvider(new FakeProvider());
+  });
+
+  it('splits where the topic changes', async () => {
+    assert.deepEqual(await semanticChunks(), [
+      '# Retries\n\nFailed steps are retried automatically. Retried steps back off exponentially between retries. ' +
+        'Retries of failed steps stop after the retry limit.',
+      '# Retries\n\nBilling invoices are emailed monthly. Invoices list billing usage per plan. Billing invoices can be downloaded.',
+      '# Retries\n\nConcurrency keys limit running functions. Concurrency keys group running functions per tenant.'
+    ]);
+  });
+
+  it('produces the same split points on every run', async () => {
+    const first = await semanticChunks();
+    setModelProvider(new FakeProvider());
+    assert.deepEqual(await semanticChunks(), first);
+  });
+
+  it('keeps everything together when no neighbours fall below the threshold', async () => {
+    const chunks = await semanticChunks({ semanticThreshold: -1 });
+    assert.equal(chunks.length, 1);
+    assert.ok(chunks[0].includes('retry limit. Billing invoices') && chunks[0].includes('per tenant.'));
+  });
+
+  it('holds semanticMinChunkSize characters before a chunk may end', async () => {
+    // A threshold above any similarity makes every sentence a topic shift
+    const chunks = await semanticChunks({ semanticThreshold: 2, semanticMinChunkSize: 40 });
+    assert.deepEqual(chunks.map(chunk => chunk.replace('# Retries\n\n', '')), [
+      'Failed steps are retried automatically. Retried steps back off exponentially between retries.',
+      'Retries of failed steps stop after the retry limit.',
+      'Billing invoices are emailed monthly. Invoices list billing usage per plan.',
+      'Billing invoices can be downloaded. Concurrency keys limit running functions.',
+      'Concurrency keys group running functions per tenant.'
+    ]);
+  });
+
+  it('never grows a chunk past maxChunkSize', async () => {
+    const chunks = await semanticChunks({ semanticThreshold: -1, maxChunkSize: 120 });
+    assert.ok(chunks.length > 1);
+    chunks.forEach(chunk => assert.ok(chunk.length <= 120, chunk));
+  });
+});
+
+describe('chunk size budget', () => {
+  // A deep breadcrumb, long enough to matter against a small maxChunkSize
+  const text = `# Operations Guide
+
+## Background functions and their retries
+
+### Retry policies for failed steps
+
+${Array.from({ length: 20 }, (_, n) => `Paragraph ${n} describes how a failed step is retried with backoff.`).join('\n\n')}`;
+
+  for (const strategy of ['heading', 'sliding-window', 'token'] as const) {
+    it(`counts the breadcrumb towards the chunk size (${strategy})`, async () => {
+      const chunks = await chunkDocument(text, SOURCE, {
+        ...OPTIONS,
+        strategy,
+        maxChunkSize: 300,
+        chunkOverlap: 60,
+        maxChunkTokens: 60,
+        chunkOverlapTokens: 10
+      });
+
+      assert.ok(chunks.length > 3);
+      chunks.forEach(({ content }) => {
+        assert.ok(content.startsWith('# Operations Guide › Background functions and their retries › Retry policies for failed steps\n\n'));
+        if (strategy === 'token') {
+          assert.ok(countTokens(content, 'text-embedding-3-small') <= 60, content);
+        } else {
+          assert.ok(content.length <= 300, `${content.length} characters`);
+        }
+      });
+    });
+  }
+});
+
+describe('all-headings strategy', () => {
+  const text = `# Guide
+
+Intro text that explains what the guide covers in some detail.
+
+#### Deep heading
+
+Deep text that would stay in the guide section under the heading strategy.`;
+
+  it('starts a section at every heading level, and accepts the former name paragraph', async () => {
+    const sections = async (strategy: ChunkingOptions['strategy']) =>
+      (await chunkDocument(text, SOURCE, { ...OPTIONS, strategy })).map(chunk => chunk.metadata.section);
+
+    assert.deepEqual(await sections('heading'), ['Guide']);
+    assert.deepEqual(await sections('all-headings'), ['Guide', 'Deep heading']);
+    assert.deepEqual(await sections('paragraph'), ['Guide', 'Deep heading']);
+  });
+});
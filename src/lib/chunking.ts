@@ -0,0 +1,684 @@
+import { DOC_CONFIG, TECH_DOMAINS } from './config';
+import { getEncoder } from './context';
+import { generateEmbeddings } from './embeddings';
+import { cosineSimilarity } from './vectorStore';
+import type { ChunkingStrategy, DocumentChunk, DocumentPage, DocumentType } from '@/types';
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy;
+  maxChunkSize: number;
+  chunkOverlap: number;
+  minChunkSize: number;
+  maxChunkTokens: number;
+  chunkOverlapTokens: number;
+  semanticThreshold: number;
+  semanticMinChunkSize: number;
+}
+
+export interface ChunkSource {
+  source: string;
+  domain: string;
+  type: DocumentType;
+  page?: DocumentPage;
+}
+
+interface Heading {
+  level: number;                            // 0 for the page the document came from
+  title: string;
+  anchor?: string;                          // Slug of the heading within the document
+}
+
+interface Section {
+  section: string;
+  subsection: string;
+  path: Heading[];                          // Headings in effect where the section starts
+  page?: number;                            // Page the section starts on, for paged documents
+  body: string;
+  bodyPaths: Heading[][];                   // Path after each heading kept inside the body
+}
+
+// Units that are never cut unless they alone exceed the chunk size
+interface Block {
+  kind: 'code' | 'table' | 'list' | 'text' | 'heading';
+  text: string;
+  path: Heading[];
+  page?: number;
+}
+
+interface Piece {
+  text: string;
+  path: Heading[];
+  pages: number[];
+}
+
+// How a strategy measures size, and how it cuts text that has no structure left
+interface Measure {
+  size(text: string): number;
+  separator: number;                        // Size of the '\n\n' joining two blocks
+  windows(text: string, size: number, overlap: number): string[];
+  tail(text: string, size: number): string;
+}
+
+// Embedding models tokenize with cl100k, which is what token windows are measured in
+const TOKENIZER_MODEL = 'text-embedding-3-small';
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+const PAGE_MARKER = /^<!-- page: (\d+) -->$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s/;
+const TABLE_ROW = /^\s*\|/;
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  yml: 'yaml',
+  golang: 'go'
+};
+
+// Chunk metadata describing the page a chunk was cut from
+export function pageMetadata(page?: DocumentPage): Partial<DocumentChunk['metadata']> {
+  if (!page) return {};
+  return {
+    pageUrl: page.url,
+    pageTitle: page.title,
+    ...(page.description && { pageDescription: page.description }),
+    ...(page.section && { pageSection: page.section })
+  };
+}
+
+// Line that converters of paged formats (PDF) put where a page starts
+export function pageMarker(page: number): string {
+  return `<!-- page: ${page} -->`;
+}
+
+// DOC_CONFIG with the domain's chunking settings applied
+export function getChunkingOptions(domain: string): ChunkingOptions {
+  const {
+    strategy,
+    maxChunkSize,
+    chunkOverlap,
+    minChunkSize,
+    maxChunkTokens,
+    chunkOverlapTokens,
+    semanticThreshold,
+    semanticMinChunkSize
+  } = DOC_CONFIG;
+  return {
+    strategy,
+    maxChunkSize,
+    chunkOverlap,
+    minChunkSize,
+    maxChunkTokens,
+    chunkOverlapTokens,
+    semanticThreshold,
+    semanticMinChunkSize,
+    ...TECH_DOMAINS[domain]?.chunking
+  };
+}
+
+// Heading text without link targets and inline code ticks
+function headingTitle(raw: string): string {
+  return raw.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/`/g, '').trim();
+}
+
+// GitHub-style anchors: lowercase, punctuation dropped, spaces to dashes, repeats numbered
+function createSlugger(): (title: string) => string {
+  const seen = new Map<string, number>();
+  return title => {
+    const slug = title.toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').trim().replace(/\s/g, '-');
+    const count = seen.get(slug) || 0;
+    seen.set(slug, count + 1);
+    return count > 0 ? `${slug}-${count}` : slug;
+  };
+}
+
+function isClosingFence(line: string, fence: string): boolean {
+  const match = line.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+  return !!match && match[1][0] === fence[0] && match[1].length >= fence.length;
+}
+
+/**
+ * Split on headings outside code fences, tracking the full heading path. With
+ * `everyHeading` each heading starts a section named after it; otherwise `#`
+ * and `##` start a section and `###` a subsection, while deeper headings stay
+ * in the body. Text before the first heading is named after the page, or
+ * Introduction.
+ */
+function splitSections(text: string, everyHeading: boolean, page?: DocumentPage): Section[] {
+  const sections: Section[] = [];
+  const slug = createSlugger();
+  let path: Heading[] = page ? [{ level: 0, title: page.title }] : [];
+  let pageNumber: number | undefined;
+  let current: Section = { section: page?.title || 'Introduction', subsection: '', path, body: '', bodyPaths: [] };
+  let lines: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    current.body = lines.join('\n').trim();
+    if (current.body) sections.push(current);
+    lines = [];
+  };
+
+  for (const line of text.split('\n')) {
+    if (fence) {
+      if (isClosingFence(line, fence)) fence = null;
+      lines.push(line);
+      continue;
+    }
+
+    const open = line.match(FENCE);
+    if (open) {
+      fence = open[1];
+      lines.push(line);
+      continue;
+    }
+
+    const marker = line.match(PAGE_MARKER);
+    if (marker) {
+      pageNumber = Number(marker[1]);
+      if (!lines.some(previous => previous.trim())) current.page = pageNumber;
+    }
+
+    const heading = line.match(HEADING);
+    if (!heading) {
+      lines.push(line);
+      continue;
+    }
+
+    const level = heading[1].length;
+    const title = headingTitle(heading[2]);
+    // A page's own `# Title` stands for the page rather than nesting under it
+    path = page && level === 1 && title.toLowerCase() === page.title.toLowerCase()
+      ? [{ level: 0, title: page.title, anchor: slug(title) }]
+      : [...path.filter(parent => parent.level < level), { level, title, anchor: slug(title) }];
+
+    if (everyHeading || level <= 2) {
+      flush();
+      current = { section: title, subsection: '', path, page: pageNumber, body: '', bodyPaths: [] };
+    } else if (level === 3) {
+      flush();
+      current = { section: current.section, subsection: title, path, page: pageNumber, body: '', bodyPaths: [] };
+    } else {
+      lines.push(line);
+      current.bodyPaths.push(path);
+    }
+  }
+
+  flush();
+  return sections;
+}
+
+// Fenced code, tables, lists and headings each form one block; other text splits on blank lines
+function parseBlocks({ body, path: sectionPath, page: sectionPage, bodyPaths }: Section): Block[] {
+  const blocks: Block[] = [];
+  const lines = body.split('\n');
+  let path = sectionPath;
+  let page = sectionPage;
+  let headingCount = 0;
+  let index = 0;
+
+  const take = (kind: Block['kind'], end: number) => {
+    if (kind === 'heading') path = bodyPaths[headingCount++] || path;
+    blocks.push({ kind, text: lines.slice(index, end).join('\n').replace(/\s+$/, ''), path, page });
+    index = end;
+  };
+
+  while (index < lines.length) {
+    const line = lines[index];
+    let end = index + 1;
+
+    const marker = line.match(PAGE_MARKER);
+    if (!line.trim() || marker) {
+      if (marker) page = Number(marker[1]);
+      index++;
+      continue;
+    }
+
+    const open = line.match(FENCE);
+    if (open) {
+      while (end < lines.length && !isClosingFence(lines[end], open[1])) end++;
+      take('code', Math.min(end + 1, lines.length));
+    } else if (HEADING.test(line)) {
+      take('heading', end);
+    } else if (TABLE_ROW.test(line)) {
+      while (end < lines.length && TABLE_ROW.test(lines[end])) end++;
+      take('table', end);
+    } else if (LIST_ITEM.test(line)) {
+      // Items, indented continuation lines and blank lines inside a loose list
+      while (end < lines.length) {
+        const next = lines[end];
+        if (LIST_ITEM.test(next) || (/^\s+\S/.test(next) && !FENCE.test(next.trimStart()))) {
+          end++;
+        } else if (!next.trim() && end + 1 < lines.length && (LIST_ITEM.test(lines[end + 1]) || /^\s+\S/.test(lines[end + 1]))) {
+          end++;
+        } else {
+          break;
+        }
+      }
+      take('list', end);
+    } else {
+      while (
+        end < lines.length &&
+        lines[end].trim() &&
+        !FENCE.test(lines[end]) &&
+        !HEADING.test(lines[end]) &&
+        !PAGE_MARKER.test(lines[end]) &&
+        !TABLE_ROW.test(lines[end]) &&
+        !LIST_ITEM.test(lines[end])
+      ) end++;
+      take('text', end);
+    }
+  }
+
+  return blocks;
+}
+
+// Normalized languages of the fenced code blocks in `text`
+function fenceLanguages(text: string): string[] {
+  const languages = new Set<string>();
+  let fence: string | null = null;
+
+  for (const line of text.split('\n')) {
+    if (fence) {
+      if (isClosingFence(line, fence)) fence = null;
+      continue;
+    }
+    const open = line.match(FENCE);
+    if (!open) continue;
+    fence = open[1];
+    const tag = open[2].replace(/^\{?\.?/, '').replace(/[},].*$/, '').toLowerCase();
+    if (tag) languages.add(LANGUAGE_ALIASES[tag] || tag);
+  }
+
+  return Array.from(languages);
+}
+
+// Greedily join units with `separator` while the result still fits
+function packUnits(units: string[], separator: string, fits: (joined: string) => boolean): string[] {
+  const pieces: string[] = [];
+  let current: string[] = [];
+
+  for (const unit of units) {
+    if (current.length > 0 && !fits([...current, unit].join(separator))) {
+      pieces.push(current.join(separator));
+      current = [];
+    }
+    current.push(unit);
+  }
+
+  if (current.length > 0) pieces.push(current.join(separator));
+  return pieces;
+}
+
+/**
+ * Cut an oversized code block between top-level statements, re-opening the
+ * fence with its language tag in every piece. A statement starts at a line at
+ * the block's outermost indentation that does not close a bracket; leading
+ * comments and decorators stay with the statement they annotate. Statements
+ * that are still too big are cut between lines.
+ */
+function splitCode(block: Block, size: number, measure: Measure): string[] {
+  const lines = block.text.split('\n');
+  const open = lines[0];
+  const hasClose = lines.length > 1 && isClosingFence(lines[lines.length - 1], open.match(FENCE)![1]);
+  const close = hasClose ? lines[lines.length - 1] : open.match(FENCE)![1];
+  const inner = lines.slice(1, hasClose ? -1 : undefined);
+
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  const outer = Math.min(...inner.filter(line => line.trim()).map(indentOf));
+  const isAnnotation = (line: string) => /^\s*(\/\/|#|\/\*|\*|@|--)/.test(line);
+
+  const statements: string[][] = [];
+  for (const line of inner) {
+    const current = statements[statements.length - 1];
+    const startsStatement =
+      line.trim() !== '' &&
+      indentOf(line) === outer &&
+      !/^\s*[)\]}]/.test(line) &&
+      !(current && current.every(previous => !previous.trim() || isAnnotation(previous)));
+
+    if (!current || startsStatement) {
+      statements.push([line]);
+    } else {
+      current.push(line);
+    }
+  }
+
+  const wrap = (joined: string) => `${open}\n${joined.replace(/\s+$/, '')}\n${close}`;
+  const fits = (joined: string) => measure.size(wrap(joined)) <= size;
+  const units = statements.flatMap(statement => {
+    const text = statement.join('\n');
+    return fits(text) ? [text] : packUnits(statement, '\n', fits);
+  });
+
+  return packUnits(units, '\n', fits).map(wrap);
+}
+
+// Cut an oversized table between rows, repeating the header row in every piece
+function splitTable(block: Block, size: number, measure: Measure): string[] {
+  const rows = block.text.split('\n');
+  const hasHeader = rows.length > 2 && /^\s*\|?\s*:?-{3,}/.test(rows[1]);
+  const header = hasHeader ? rows.slice(0, 2).join('\n') : '';
+  const body = hasHeader ? rows.slice(2) : rows;
+  const wrap = (joined: string) => (header ? `${header}\n${joined}` : joined);
+  return packUnits(body, '\n', joined => measure.size(wrap(joined)) <= size).map(wrap);
+}
+
+// Cut an oversized list between top-level items
+function splitList(block: Block, size: number, measure: Measure): string[] {
+  const lines = block.text.split('\n');
+  const outer = lines[0].match(LIST_ITEM)![1].length;
+  const items: string[][] = [];
+  lines.forEach(line => {
+    const item = line.match(LIST_ITEM);
+    if (item && item[1].length === outer) {
+      items.push([line]);
+    } else {
+      items[items.length - 1].push(line);
+    }
+  });
+
+  const units = items.flatMap(item => {
+    const text = item.join('\n').replace(/\s+$/, '');
+    return measure.size(text) <= size ? [text] : measure.windows(text, size, 0);
+  });
+  return packUnits(units, '\n', joined => measure.size(joined) <= size);
+}
+
+function splitBlock(block: Block, size: number, overlap: number, measure: Measure): string[] {
+  if (measure.size(block.text) <= size) return [block.text];
+
+  switch (block.kind) {
+    case 'code':
+      return splitCode(block, size, measure);
+    case 'table':
+      return splitTable(block, size, measure);
+    case 'list':
+      return splitList(block, size, measure);
+    default:
+      return measure.windows(block.text, size, overlap);
+  }
+}
+
+/**
+ * Fixed-size character windows, consecutive windows sharing `overlap`
+ * characters. Window ends move back to whitespace and starts forward to the
+ * next word so words are not cut, unless a single word is longer than a window.
+ */
+function slidingWindows(text: string, size: number, overlap: number): string[] {
+  const windows: string[] = [];
+  const shared = Math.min(overlap, size - 1);
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const boundary = text.substring(start, end + 1).search(/\s\S*$/);
+      if (boundary > shared) end = start + boundary;
+    }
+
+    const piece = text.substring(start, end).trim();
+    if (piece) windows.push(piece);
+    if (end >= text.length) break;
+
+    let next = end - shared;
+    if (next > start && !/\s/.test(text[next - 1])) {
+      const wordEnd = text.substring(next, end).search(/\s/);
+      if (wordEnd !== -1) next += wordEnd + 1;
+    }
+    start = Math.max(next, start + 1);
+  }
+
+  return windows;
+}
+
+// Windows of `size` tokens sharing `overlap` tokens
+function tokenWindows(text: string, size: number, overlap: number): string[] {
+  const encoder = getEncoder(TOKENIZER_MODEL);
+  const tokens = encoder.encode(text);
+  const step = Math.max(size - overlap, 1);
+  const windows: string[] = [];
+
+  for (let start = 0; start < tokens.length; start += step) {
+    const piece = encoder.decode(tokens.slice(start, start + size)).trim();
+    if (piece) windows.push(piece);
+    if (start + size >= tokens.length) break;
+  }
+
+  return windows;
+}
+
+const CHARACTERS: Measure = {
+  size: text => text.length,
+  separator: 2,
+  windows: slidingWindows,
+  tail: (text, size) => {
+    const tail = text.substring(text.length - size);
+    const wordStart = tail.search(/\s/);
+    return (wordStart === -1 || text.length <= size ? tail : tail.substring(wordStart)).trim();
+  }
+};
+
+const TOKENS: Measure = {
+  size: text => getEncoder(TOKENIZER_MODEL).encode(text).length,
+  separator: 1,
+  windows: tokenWindows,
+  tail: (text, size) => {
+    const encoder = getEncoder(TOKENIZER_MODEL);
+    return encoder.decode(encoder.encode(text).slice(-size)).trim();
+  }
+};
+
+function pagesOf(units: Array<{ page?: number }>): number[] {
+  return Array.from(new Set(units.flatMap(({ page }) => (page === undefined ? [] : [page]))));
+}
+
+/**
+ * Pack blocks into chunks of at most `size`. Blocks are only cut when they are
+ * bigger than a chunk on their own. With an overlap, each chunk starts with
+ * the last blocks of the previous one that fit in `overlap`, or with the end
+ * of its last text block when none does. A heading never ends a chunk; it
+ * moves on to the chunk holding its content.
+ */
+function packBlocks(blocks: Block[], size: number, overlap: number, measure: Measure): Piece[] {
+  const pieces = blocks.flatMap((block, blockIndex) =>
+    splitBlock(block, size, overlap, measure).map(text => ({ ...block, blockIndex, text, size: measure.size(text) }))
+  );
+  const chunks: Piece[] = [];
+  const emit = (emitted: typeof pieces) => chunks.push({
+    text: emitted.map(({ text }) => text).join('\n\n'),
+    path: emitted[0].path,
+    pages: pagesOf(emitted)
+  });
+  let current: typeof pieces = [];
+  let currentSize = 0;
+  let fresh = 0;                            // Pieces in `current` not carried over from the previous chunk
+
+  const push = (piece: (typeof pieces)[number]) => {
+    currentSize += (current.length > 0 ? measure.separator : 0) + piece.size;
+    current.push(piece);
+  };
+
+  for (const piece of pieces) {
+    if (fresh > 0 && currentSize + measure.separator + piece.size > size) {
+      const orphan = fresh > 1 && current[current.length - 1].kind === 'heading' ? current.pop() : undefined;
+      emit(current);
+
+      let carried: typeof pieces = [];
+      // Windows of one text block already overlap each other
+      if (overlap > 0 && current[current.length - 1].blockIndex !== piece.blockIndex) {
+        let carriedSize = 0;
+        for (let index = current.length - 1; index > 0; index--) {
+          carriedSize += current[index].size + measure.separator;
+          if (carriedSize > overlap) break;
+          carried = current.slice(index);
+        }
+        const last = current[current.length - 1];
+        if (carried.length === 0 && last.kind === 'text') {
+          const tail = measure.tail(last.text, overlap);
+          if (tail) carried = [{ ...last, text: tail, size: measure.size(tail) }];
+        }
+        if (measure.size(carried.map(({ text }) => text).join('\n\n')) + measure.separator + piece.size > size) carried = [];
+      }
+
+      current = [];
+      currentSize = 0;
+      fresh = 0;
+      carried.forEach(push);
+      if (orphan) {
+        push(orphan);
+        fresh++;
+      }
+    }
+    push(piece);
+    fresh++;
+  }
+
+  if (fresh > 0) emit(current);
+  return chunks;
+}
+
+// Sentences, or lines for text without sentence punctuation (transcripts, logs)
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap(line => line.split(/(?<=[.!?])\s+(?=[A-Z0-9"'`(\[])/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Semantic chunking: text blocks are split into sentences, every sentence and
+ * every other block is embedded (batched and cached like stored chunks), and
+ * a chunk ends where the similarity of neighbouring units drops below
+ * `semanticThreshold`, once it holds `semanticMinChunkSize` characters. Chunks
+ * also end at headings past that size and never grow past `maxChunkSize`.
+ */
+async function semanticPieces(blocks: Block[], options: ChunkingOptions): Promise<Piece[]> {
+  const units = blocks.flatMap(block => {
+    if (block.kind !== 'text') {
+      return splitBlock(block, options.maxChunkSize, 0, CHARACTERS)
+        .map(text => ({ kind: block.kind, text, path: block.path, page: block.page, joiner: '\n\n' }));
+    }
+    return splitSentences(block.text)
+      .flatMap(sentence => slidingWindows(sentence, options.maxChunkSize, 0))
+      .map((text, index) => ({ kind: block.kind, text, path: block.path, page: block.page, joiner: index === 0 ? '\n\n' : ' ' }));
+  });
+  if (units.length === 0) return [];
+
+  const embeddings = await generateEmbeddings(units.map(({ text }) => text));
+  const pieces: Piece[] = [];
+  let current: typeof units = [];
+  let size = 0;
+
+  const emit = () => pieces.push({
+    text: current.map(({ text, joiner }, position) => (position > 0 ? joiner : '') + text).join(''),
+    path: current[0].path,
+    pages: pagesOf(current)
+  });
+
+  units.forEach((unit, index) => {
+    const previous = current[current.length - 1];
+    if (previous && previous.kind !== 'heading') {
+      const topicShift = unit.kind === 'heading' ||
+        cosineSimilarity(embeddings[index - 1], embeddings[index]) < options.semanticThreshold;
+      if (size + unit.joiner.length + unit.text.length > options.maxChunkSize ||
+        (topicShift && size >= options.semanticMinChunkSize)) {
+        emit();
+        current = [];
+        size = 0;
+      }
+    }
+
+    size += (current.length > 0 ? unit.joiner.length : 0) + unit.text.length;
+    current.push(unit);
+  });
+
+  emit();
+  return pieces;
+}
+
+// The `# a › b` line a chunk starts with
+function breadcrumb(path: Heading[], section: Section): string {
+  return `# ${path.length > 0 ? path.map(heading => heading.title).join(' › ') : section.section}\n\n`;
+}
+
+async function splitBody(section: Section, options: ChunkingOptions): Promise<Piece[]> {
+  const blocks = parseBlocks(section);
+
+  // Chunk sizes include the breadcrumb; the longest one in the section is reserved,
+  // though never more than half of a chunk
+  const longest = [section.path, ...blocks.map(block => block.path)]
+    .map(path => breadcrumb(path, section))
+    .reduce((a, b) => (b.length > a.length ? b : a));
+  const budget = (size: number, measure: Measure) => Math.max(size - measure.size(longest), Math.ceil(size / 2));
+
+  switch (options.strategy) {
+    case 'semantic':
+      return semanticPieces(blocks, { ...options, maxChunkSize: budget(options.maxChunkSize, CHARACTERS) });
+    case 'sliding-window':
+      return packBlocks(blocks, budget(options.maxChunkSize, CHARACTERS), options.chunkOverlap, CHARACTERS);
+    case 'token':
+      return packBlocks(blocks, budget(options.maxChunkTokens, TOKENS), options.chunkOverlapTokens, TOKENS);
+    default:
+      return packBlocks(blocks, budget(options.maxChunkSize, CHARACTERS), 0, CHARACTERS);
+  }
+}
+
+/**
+ * The one chunker behind every ingestion path. The strategy decides how the
+ * document is split into sections and how each section body is cut; fenced
+ * code, tables and lists are never cut unless they alone exceed a chunk. Every
+ * chunk starts with its heading breadcrumb ("Functions › Flow control ›
+ * Concurrency", rooted at the page title), which is embedded with the text
+ * and counts towards maxChunkSize (maxChunkTokens), and records the heading path, the anchor of its deepest heading, its
+ * section's anchor and chunkIndex within the section, the languages of its code blocks and, for
+ * paged documents, the pages it spans. Chunks under minChunkSize are dropped.
+ */
+export async function chunkDocument(
+  text: string,
+  { source, domain, type, page }: ChunkSource,
+  options: ChunkingOptions = getChunkingOptions(domain)
+): Promise<DocumentChunk[]> {
+  const sections = splitSections(text, options.strategy === 'all-headings' || options.strategy === 'paragraph', page);
+  const chunks: DocumentChunk[] = [];
+
+  for (const section of sections) {
+    let chunkIndex = 0;
+    const sectionAnchor = section.path[section.path.length - 1]?.anchor;
+
+    for (const piece of await splitBody(section, options)) {
+      const headings = piece.path.map(heading => heading.title);
+      const content = `${breadcrumb(piece.path, section)}${piece.text}`;
+      if (content.length < options.minChunkSize) continue;
+
+      const anchor = [...piece.path].reverse().find(heading => heading.anchor)?.anchor;
+      const languages = fenceLanguages(piece.text);
+      chunks.push({
+        content,
+        metadata: {
+          source,
+          section: section.section,
+          subsection: section.subsection,
+          type,
+          chunkIndex: chunkIndex++,
+          domain,
+          ...(headings.length > 0 && { headings }),
+          ...(anchor && { anchor }),
+          ...(sectionAnchor && { sectionAnchor }),
+          ...(languages.length > 0 && { languages }),
+          ...(piece.pages.length > 0 && { pageStart: Math.min(...piece.pages), pageEnd: Math.max(...piece.pages) }),
+          ...pageMetadata(page)
+        }
+      });
+    }
+  }
+
+  return chunks;
+}
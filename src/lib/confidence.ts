@@ -0,0 +1,115 @@
+import { CONFIDENCE_CONFIG } from './config';
+import { tokenize } from './lexicalIndex';
+import type {
+  ConfidenceAssessment,
+  ConfidenceLevel,
+  ConfidencePolicy,
+  ExpertiseDomain,
+  VectorSearchResult
+} from '@/types';
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+// Share of the question's content words that appear somewhere in the context
+export function measureCoverage(query: string, contextText: string): number {
+  const queryTerms = new Set(tokenize(query));
+  if (queryTerms.size === 0) return 1;
+
+  const contextTerms = new Set(tokenize(contextText));
+  let covered = 0;
+  queryTerms.forEach(term => {
+    if (contextTerms.has(term)) covered++;
+  });
+  return covered / queryTerms.size;
+}
+
+/**
+ * Judge whether the retrieved context can answer the question, from the best
+ * vector similarity (relative to the domain's minScore), how far it stands out
+ * from the other results, and how much of the question the context covers.
+ * The level decides whether the domain's low-confidence policy applies.
+ */
+export function assessConfidence(
+  query: string,
+  results: VectorSearchResult[],
+  contextText: string,
+  options: { minScore: number; settings?: ExpertiseDomain['confidence'] }
+): ConfidenceAssessment {
+  const settings = { ...CONFIDENCE_CONFIG, ...options.settings };
+
+  if (results.length === 0 || !contextText) {
+    return {
+      level: 'none',
+      score: 0,
+      topScore: 0,
+      scoreGap: 0,
+      coverage: 0,
+      action: settings.policy
+    };
+  }
+
+  const scores = results.map(result => result.score).sort((a, b) => b - a);
+  const topScore = scores[0];
+  const others = scores.slice(1);
+  const scoreGap = others.length > 0
+    ? topScore - others.reduce((sum, score) => sum + score, 0) / others.length
+    : topScore - options.minScore;
+  const coverage = measureCoverage(query, contextText);
+
+  const { weights } = CONFIDENCE_CONFIG;
+  const score =
+    weights.topScore * clamp((topScore - options.minScore) / Math.max(CONFIDENCE_CONFIG.strongScore - options.minScore, 0.05)) +
+    weights.scoreGap * clamp(scoreGap / CONFIDENCE_CONFIG.gapScale) +
+    weights.coverage * coverage;
+
+  const level: ConfidenceLevel = score >= settings.high ? 'high' : score >= settings.medium ? 'medium' : 'low';
+  const action: ConfidencePolicy = level === 'low' ? settings.policy : 'answer';
+
+  return {
+    level,
+    score: Math.round(score * 100) / 100,
+    topScore: Math.round(topScore * 1000) / 1000,
+    scoreGap: Math.round(scoreGap * 1000) / 1000,
+    coverage: Math.round(coverage * 100) / 100,
+    action
+  };
+}
+
+// Heading breadcrumbs (or section titles) of the closest chunks, offered as questions the docs can answer
+export function suggestRelatedTopics(results: VectorSearchResult[], limit = 5): string[] {
+  const topics = new Set<string>();
+  for (const result of results) {
+    const headings = result.metadata?.headings;
+    if (Array.isArray(headings) && headings.length > 0) {
+      topics.add(headings.join(' › '));
+      if (topics.size >= limit) break;
+      continue;
+    }
+
+    const section = result.metadata?.section;
+    const subsection = result.metadata?.subsection;
+    if (typeof section !== 'string' || !section || section === 'Introduction') continue;
+    topics.add(typeof subsection === 'string' && subsection ? `${section} - ${subsection}` : section);
+    if (topics.size >= limit) break;
+  }
+  return Array.from(topics);
+}
+
+// The explicit "I don't know" answer
+export function buildRefusal(domainConfig: ExpertiseDomain, relatedTopics: string[]): string {
+  const lines = [
+    `I couldn't find enough in the ${domainConfig.name} knowledge base to answer this reliably, so I'd rather not guess.`
+  ];
+
+  if (relatedTopics.length > 0) {
+    lines.push('', 'The documentation does cover these related topics:', ...relatedTopics.map(topic => `- ${topic}`));
+  }
+
+  lines.push('', 'Could you rephrase the question or add details such as the feature, API or error message involved?');
+  return lines.join('\n');
+}
+
+export const LOW_CONFIDENCE_WARNING =
+  '> ⚠️ **Low confidence:** the documentation only partly covers this question. Verify the details below before relying on them.\n\n';
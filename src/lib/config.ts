@@ -1,4 +1,5 @@
-import type { ExpertiseDomain } from '@/types';
+import { validateDomainSettings } from './domainSettings';
+import type { ChunkingStrategy, ConfidencePolicy, ContextBudget, ExpertiseDomain, ModelProviderName, ModelTask, RerankProvider } from '@/types';
 
 // Domain configurations - now mutable for dynamic additions
 export const TECH_DOMAINS: Record<string, ExpertiseDomain> = {
@@ -86,6 +87,9 @@ export const TECH_DOMAINS: Record<string, ExpertiseDomain> = {
   }
 };
 
+// Fail fast on a misconfigured built-in domain
+Object.entries(TECH_DOMAINS).forEach(([domain, config]) => validateDomainSettings(domain, config));
+
 // Client-safe helper functions for domain management
 export function getDomainConfig(domain: string): ExpertiseDomain | null {
   return TECH_DOMAINS[domain] || null;
@@ -98,6 +102,7 @@ export function getActiveDomains(): Record<string, ExpertiseDomain> {
 }
 
 export function addDomain(domain: string, config: ExpertiseDomain): void {
+  validateDomainSettings(domain, config);
   TECH_DOMAINS[domain] = config;
 }
 
@@ -118,40 +123,249 @@ export function getPineconeConfig() {
   return {
     apiKey,
     indexName,
-    topK: 5,
-    minScore: 0.4
+    ...SEARCH_CONFIG
   };
 }
 
-export function getOpenAIConfig() {
+export function getVectorStoreConfig() {
   // Only run on server side
   if (typeof window !== 'undefined') {
-    throw new Error('getOpenAIConfig can only be called on the server side');
+    throw new Error('getVectorStoreConfig can only be called on the server side');
   }
-  
+
+  const provider = process.env.VECTOR_STORE || 'pinecone';
+
+  if (provider !== 'pinecone' && provider !== 'local') {
+    throw new Error(`Unsupported VECTOR_STORE '${provider}' (expected 'pinecone' or 'local')`);
+  }
+
+  return {
+    provider: provider as 'pinecone' | 'local',
+    localPath: process.env.LOCAL_VECTOR_STORE_PATH || '.data/vector-store'
+  };
+}
+
+export function getLexicalIndexConfig() {
+  // Only run on server side
+  if (typeof window !== 'undefined') {
+    throw new Error('getLexicalIndexConfig can only be called on the server side');
+  }
+
+  // Next to the local vector store by default; other deployments share it through Redis when they have one
+  const provider = process.env.LEXICAL_INDEX ||
+    (getVectorStoreConfig().provider === 'local' ? 'disk' : process.env.REDIS_URL ? 'redis' : 'none');
+
+  if (provider !== 'disk' && provider !== 'redis' && provider !== 'none') {
+    throw new Error(`Unsupported LEXICAL_INDEX '${provider}' (expected 'disk', 'redis' or 'none')`);
+  }
+
+  return {
+    provider: provider as 'disk' | 'redis' | 'none',
+    path: process.env.LEXICAL_INDEX_PATH || '.data/lexical-index',
+    redisUrl: process.env.REDIS_URL || 'redis://localhost:6379'
+  };
+}
+
+export function getCrawlStateConfig() {
+  // Only run on server side
+  if (typeof window !== 'undefined') {
+    throw new Error('getCrawlStateConfig can only be called on the server side');
+  }
+
+  return {
+    path: process.env.CRAWL_STATE_PATH || '.data/crawl-state'
+  };
+}
+
+export function getEmbeddingCacheConfig() {
+  // Only run on server side
+  if (typeof window !== 'undefined') {
+    throw new Error('getEmbeddingCacheConfig can only be called on the server side');
+  }
+
+  const provider = process.env.EMBEDDING_CACHE || 'disk';
+
+  if (provider !== 'disk' && provider !== 'redis' && provider !== 'none') {
+    throw new Error(`Unsupported EMBEDDING_CACHE '${provider}' (expected 'disk', 'redis' or 'none')`);
+  }
+
+  return {
+    provider: provider as 'disk' | 'redis' | 'none',
+    diskPath: process.env.EMBEDDING_CACHE_PATH || '.data/embedding-cache',
+    redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+    ttlSeconds: Number(process.env.EMBEDDING_CACHE_TTL_SECONDS) || undefined
+  };
+}
+
+export function getRerankConfig() {
+  // Only run on server side
+  if (typeof window !== 'undefined') {
+    throw new Error('getRerankConfig can only be called on the server side');
+  }
+
+  return {
+    llmModel: process.env.RERANK_LLM_MODEL, // defaults to the classify model
+    apiUrl: process.env.RERANK_API_URL,
+    apiKey: process.env.RERANK_API_KEY,
+    crossEncoderModel: process.env.RERANK_MODEL || 'rerank-english-v3.0'
+  };
+}
+
+export function getModelConfig() {
+  // Only run on server side
+  if (typeof window !== 'undefined') {
+    throw new Error('getModelConfig can only be called on the server side');
+  }
+
+  const provider = process.env.MODEL_PROVIDER || 'openai';
+
+  if (provider !== 'openai' && provider !== 'openai-compatible' && provider !== 'fake') {
+    throw new Error(`Unsupported MODEL_PROVIDER '${provider}' (expected 'openai', 'openai-compatible' or 'fake')`);
+  }
+
   const apiKey = process.env.OPENAI_API_KEY;
-  
-  if (!apiKey) {
+  const baseURL = process.env.OPENAI_BASE_URL;
+
+  if (provider === 'openai' && !apiKey) {
     throw new Error('OPENAI_API_KEY environment variable is required');
   }
-  
+  if (provider === 'openai-compatible' && !baseURL) {
+    throw new Error('OPENAI_BASE_URL environment variable is required for the openai-compatible provider');
+  }
+
   return {
+    provider: provider as ModelProviderName,
     apiKey,
-    embeddingModel: 'text-embedding-3-small' as const,
-    chatModel: 'gpt-4' as const,
-    temperature: 0.1,
-    maxTokens: 2048
+    baseURL,
+    embeddingModel: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+    // Default model per task, overridable per domain via `models`
+    models: {
+      answer: process.env.ANSWER_MODEL || 'gpt-4',
+      classify: process.env.CLASSIFY_MODEL || 'gpt-4o-mini',
+      rewrite: process.env.REWRITE_MODEL || 'gpt-4o-mini'
+    } as Record<ModelTask, string>,
+    temperature: 0.1 // answer length is capped per model by CONTEXT_CONFIG
   };
 }
 
 // Static configuration
+export const SEARCH_CONFIG = {
+  topK: 5,
+  minScore: 0.4,
+  prefixFilterOverfetch: 4 // candidate multiplier when filtering by source prefix
+};
+
+// Embedding request batching and rate-limit handling
+export const EMBEDDING_CONFIG = {
+  batchSize: 100, // texts per embeddings request
+  concurrency: 4, // embeddings requests in flight
+  maxRetries: 6, // retries on 429/5xx before giving up
+  initialBackoffMs: 1000 // doubled on every retry, with jitter
+};
+
+// Defaults for hybrid (vector + BM25) retrieval, overridable per domain
+export const HYBRID_SEARCH_CONFIG = {
+  enabled: true,
+  vectorWeight: 1,
+  lexicalWeight: 1,
+  rrfK: 60,
+  candidates: 20 // results taken from each ranking before fusion
+};
+
+// Defaults for the optional rerank stage, overridable per domain
+export const RERANK_CONFIG = {
+  enabled: false,
+  provider: 'llm' as RerankProvider,
+  candidates: 30, // over-fetched results handed to the reranker
+  topN: SEARCH_CONFIG.topK
+};
+
+// Defaults for searching several domains at once
+export const FEDERATED_SEARCH_CONFIG = {
+  maxShare: 0.6 // default quota: share of the results one domain may fill while others have results
+};
+
+// Defaults for query expansion (paraphrases + HyDE), overridable per domain and per request
+export const QUERY_EXPANSION_CONFIG = {
+  enabled: false,
+  paraphrases: 3,
+  hyde: true
+};
+
+// Defaults for MMR diversification, overridable per domain and per request (lambda)
+export const MMR_CONFIG = {
+  enabled: false,
+  lambda: 0.7,
+  candidates: 20
+};
+
+// Defaults for neighbor-chunk expansion, overridable per domain
+export const NEIGHBOR_EXPANSION_CONFIG = {
+  enabled: false,
+  mode: 'siblings' as 'siblings' | 'parent',
+  window: 1,
+  maxChunks: 8
+};
+
+// Confidence assessment defaults, overridable per domain
+export const CONFIDENCE_CONFIG = {
+  policy: 'warn' as ConfidencePolicy,
+  high: 0.65,
+  medium: 0.4,
+  strongScore: 0.75, // vector similarity treated as a certain match
+  gapScale: 0.15,    // score gap treated as a clear winner
+  weights: { topScore: 0.55, scoreGap: 0.15, coverage: 0.3 }
+};
+
+// Token budgets for prompt context and the answer, by model (longest prefix wins)
+export const CONTEXT_CONFIG = {
+  defaultBudget: { contextTokens: 3000, answerTokens: 2048 } as ContextBudget,
+  modelBudgets: {
+    'gpt-4': { contextTokens: 4000, answerTokens: 2048 }, // 8k context window
+    'gpt-4-turbo': { contextTokens: 12000, answerTokens: 2048 },
+    'gpt-4o': { contextTokens: 12000, answerTokens: 2048 },
+    'gpt-4.1': { contextTokens: 12000, answerTokens: 2048 }
+  } as Record<string, ContextBudget>,
+  minChunkTokens: 60, // smaller (truncated) pieces are not worth including
+  minOverlapChars: 40 // shortest repeated text trimmed between chunks of one source
+};
+
 export const DOC_CONFIG = {
+  strategy: 'heading' as ChunkingStrategy, // used by every ingestion path unless the domain sets one
   maxChunkSize: 1000,
   chunkOverlap: 200,
   minChunkSize: 100,
+  maxChunkTokens: 256,
+  chunkOverlapTokens: 50,
+  semanticThreshold: 0.5,
+  semanticMinChunkSize: 300,
   batchSize: 100,
   rateLimit: 1000 // ms between batches
 };
 
+export const CRAWL_CONFIG = {
+  maxPages: 500,
+  maxDepth: 3,
+  requestDelayMs: 1000, // between requests; robots.txt Crawl-delay can raise it
+  sitemap: true,
+  timeoutMs: 15000, // per request
+  userAgent: 'inngest-document-app-crawler/1.0' // product token matched against robots.txt groups
+};
+
+// File types /api/ingest accepts (extension → MIME type)
+export const UPLOAD_FORMATS: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.json': 'application/json', // OpenAPI / Swagger specs are chunked by operation
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.odt': 'application/vnd.oasis.opendocument.text'
+};
+
 // Note: PINECONE_CONFIG and OPENAI_CONFIG legacy exports removed
-// Use getPineconeConfig() and getOpenAIConfig() functions in server-side code only
\ No newline at end of file
+// Use getPineconeConfig() and getModelConfig() functions in server-side code only
\ No newline at end of file
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { chunkDocument } from './chunking';
+import { buildContext } from './context';
+import type { VectorSearchResult } from '@/types';
+
+const MODEL = 'gpt-4';
+
+function result(id: string, content: string, source = `${id}.md`): VectorSearchResult {
+  return { id, content, source, score: 0.9, metadata: {} };
+}
+
+function build(results: VectorSearchResult[], budget = 4000) {
+  return buildContext(results, { model: MODEL, budget, header: item => `Source: ${item.source}\n` });
+}
+
+const FIRST = `Create the client once.
+
+\`\`\`ts
+const client = new Client();
+
+export default client;
+\`\`\``;
+
+const SECOND = `Wrap the handler.
+
+\`\`\`ts
+function handler() {
+  return run();
+}
+
+export default client;
+\`\`\`
+
+Deploy the handler.`;
+
+describe('buildContext', () => {
+  it('does not remove repeated lines from inside code blocks', () => {
+    const { results } = build([result('first', FIRST), result('second', SECOND)]);
+
+    assert.equal(results[1].content, SECOND);
+    assert.equal((results[1].content.match(/```/g) || []).length, 2);
+  });
+
+  it('drops a code block that repeats one already in the context', () => {
+    const { results } = build([
+      result('first', FIRST),
+      result('second', `Same sample, another page.\n\n${FIRST.split('\n\n').slice(1).join('\n\n')}`)
+    ]);
+
+    assert.equal(results[1].content, 'Same sample, another page.');
+  });
+
+  it('truncates before a code block rather than inside it', () => {
+    const longCode = Array.from({ length: 120 }, (_, line) => `  step${line}();`).join('\n\n');
+    const content = `${'Introduction to steps and how they retry on failure. '.repeat(12)}\n\n\`\`\`ts\n${longCode}\n\`\`\``;
+    const { results, usage } = build([result('long', content)], 300);
+
+    assert.equal(usage.truncated, 1);
+    assert.ok(!results[0].content.includes('```'));
+  });
+});
+
+describe('buildContext with sliding-window chunks', () => {
+  const text = `# Retries\n\n${Array.from({ length: 12 }, (_, n) =>
+    `Sentence ${n} explains how step ${n} is retried with backoff after it fails.`).join(' ')}`;
+
+  it('includes the text neighbouring chunks share only once', async () => {
+    const chunks = await chunkDocument(text, { source: 'retries.md', domain: 'context-test', type: 'custom' }, {
+      strategy: 'sliding-window',
+      maxChunkSize: 300,
+      chunkOverlap: 100,
+      minChunkSize: 10,
+      maxChunkTokens: 256,
+      chunkOverlapTokens: 0,
+      semanticThreshold: 0.5,
+      semanticMinChunkSize: 200
+    });
+    assert.ok(chunks.length > 2);
+    chunks.forEach(chunk => assert.ok(chunk.content.startsWith('# Retries\n\n')));
+
+    const { text: context, usage } = build(chunks.map((chunk, index) => result(`chunk-${index}`, chunk.content, 'retries.md')));
+    assert.equal(usage.chunks, chunks.length);
+    for (let n = 0; n < 12; n++) {
+      assert.equal(context.split(`step ${n} is retried`).length - 1, 1, `sentence ${n}`);
+    }
+  });
+});
@@ -0,0 +1,163 @@
+import { getEncoding, getEncodingNameForModel, type Tiktoken, type TiktokenModel } from 'js-tiktoken';
+import { CONTEXT_CONFIG } from './config';
+import type { ContextBudget, ContextUsage, VectorSearchResult } from '@/types';
+
+const SEPARATOR = '\n\n---\n\n';
+
+// Encoders are expensive to build, so keep one per encoding
+const encoders = new Map<string, Tiktoken>();
+
+export function getEncoder(model: string): Tiktoken {
+  let encoding: string;
+  try {
+    encoding = getEncodingNameForModel(model as TiktokenModel);
+  } catch {
+    // Unknown (e.g. self-hosted) models: cl100k is a close enough estimate
+    encoding = 'cl100k_base';
+  }
+
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = getEncoding(encoding as Parameters<typeof getEncoding>[0]);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+export function countTokens(text: string, model: string): number {
+  return getEncoder(model).encode(text).length;
+}
+
+// Budget for a model: exact match, then the longest configured prefix, then the default
+export function getContextBudget(model: string): ContextBudget {
+  const prefix = Object.keys(CONTEXT_CONFIG.modelBudgets)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? CONTEXT_CONFIG.modelBudgets[prefix] : CONTEXT_CONFIG.defaultBudget;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Blank-line separated paragraphs, with every fenced code block kept whole
+ * (blank lines included), so deduplication and truncation never remove part
+ * of a code sample or leave a fence unclosed.
+ */
+function splitParagraphs(content: string): string[] {
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+
+  for (const line of content.split('\n')) {
+    const marker = line.match(/^ {0,3}(`{3,}|~{3,})(.*)$/);
+    if (fence) {
+      // A closing fence uses the same character, at least as many times, and nothing after it
+      if (marker && marker[1][0] === fence[0] && marker[1].length >= fence.length && !marker[2].trim()) fence = null;
+    } else if (marker) {
+      fence = marker[1];
+    } else if (!line.trim()) {
+      if (current.length > 0) paragraphs.push(current.join('\n'));
+      current = [];
+      continue;
+    }
+    current.push(line);
+  }
+
+  if (current.length > 0) paragraphs.push(current.join('\n'));
+  return paragraphs;
+}
+
+// The `# a › b` heading breadcrumb every chunk starts with, and the text after it
+function splitBreadcrumb(content: string): [string, string] {
+  const breadcrumb = content.match(/^# [^\n]*\n\n/)?.[0] || '';
+  return [breadcrumb, content.substring(breadcrumb.length)];
+}
+
+// Drop the start of `content` when it repeats the end of an earlier chunk
+// (sliding-window chunks share chunkOverlap characters after their breadcrumbs)
+function trimOverlap(content: string, previous: string[]): string {
+  const [breadcrumb, body] = splitBreadcrumb(content);
+  const probe = body.substring(0, CONTEXT_CONFIG.minOverlapChars);
+  if (probe.length < CONTEXT_CONFIG.minOverlapChars) return content;
+
+  for (const [, text] of previous.map(splitBreadcrumb)) {
+    // Longest overlap first: the earliest occurrence whose remainder starts `body`
+    for (let start = text.indexOf(probe); start !== -1; start = text.indexOf(probe, start + 1)) {
+      if (body.startsWith(text.substring(start))) {
+        return breadcrumb + body.substring(text.length - start).trimStart();
+      }
+    }
+  }
+  return content;
+}
+
+export interface ContextResult {
+  text: string;
+  results: VectorSearchResult[]; // Included results, content as it appears in the prompt
+  usage: ContextUsage;
+}
+
+/**
+ * Pack search results into the prompt context in relevance order until the
+ * token budget is spent. Text already included (whole paragraphs or code
+ * blocks, or the overlap between neighbouring chunks) is not repeated, and a
+ * chunk that does not fit is cut at the last paragraph boundary that does.
+ */
+export function buildContext(
+  results: VectorSearchResult[],
+  options: { model: string; budget: number; header: (result: VectorSearchResult) => string }
+): ContextResult {
+  const included: VectorSearchResult[] = [];
+  const entries: string[] = [];
+  const seenParagraphs = new Set<string>();
+  const includedBySource = new Map<string, string[]>();
+  const usage: ContextUsage = { chunks: 0, tokens: 0, budget: options.budget, truncated: 0, dropped: 0 };
+
+  for (const result of results) {
+    const remaining = options.budget - usage.tokens;
+    if (remaining < CONTEXT_CONFIG.minChunkTokens) {
+      usage.dropped++;
+      continue;
+    }
+
+    const previous = includedBySource.get(result.source) || [];
+    const paragraphs = splitParagraphs(trimOverlap(result.content, previous))
+      .filter(paragraph => paragraph.trim() && !seenParagraphs.has(normalize(paragraph)));
+
+    if (paragraphs.length === 0) {
+      usage.dropped++;
+      continue;
+    }
+
+    const prefix = `${entries.length > 0 ? SEPARATOR : ''}${options.header(result)}Content: `;
+    let content = paragraphs.join('\n\n');
+    let tokens = countTokens(prefix + content, options.model);
+
+    if (tokens > remaining) {
+      // Keep the leading paragraphs that fit
+      let kept = paragraphs.length;
+      while (kept > 0 && tokens > remaining) {
+        kept--;
+        content = paragraphs.slice(0, kept).join('\n\n');
+        tokens = countTokens(prefix + content, options.model);
+      }
+      if (kept === 0 || tokens < CONTEXT_CONFIG.minChunkTokens) {
+        usage.dropped++;
+        continue;
+      }
+      paragraphs.length = kept;
+      usage.truncated++;
+    }
+
+    paragraphs.forEach(paragraph => seenParagraphs.add(normalize(paragraph)));
+    includedBySource.set(result.source, [...previous, content]);
+    entries.push(prefix + content);
+    included.push({ ...result, content });
+    usage.chunks++;
+    usage.tokens += tokens;
+  }
+
+  return { text: entries.join(''), results: included, usage };
+}
@@ -0,0 +1,199 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it, mock } from 'node:test';
+import { getSourceIdPrefix } from './ai';
+import { addDomain } from './config';
+import { crawlDomainDocs } from './crawler';
+import { setUpTestEnvironment, type TestEnvironment } from './testEnvironment';
+import { getVectorStore } from './vectorStore';
+
+interface FixturePage {
+  status?: number;
+  contentType?: string;
+  body?: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+const DOMAIN = 'crawler-test';
+const NAMESPACE = 'crawler-test-docs';
+
+function htmlPage(title: string, links: string[] = []): string {
+  const paragraphs = [1, 2, 3].map(n =>
+    `<p>${title} paragraph ${n} explains how the ${title.toLowerCase()} feature is configured, ` +
+    'which options it accepts and what happens when a step fails and is retried later.</p>'
+  );
+  const anchors = links.map(link => `<li><a href="${link}">${link}</a></li>`).join('');
+  return `<!doctype html><html><head><title>${title}</title></head><body>` +
+    `<nav><ul>${anchors}</ul></nav><main><h1>${title}</h1>${paragraphs.join('')}</main></body></html>`;
+}
+
+/**
+ * Static documentation site: robots.txt, a sitemap and HTML pages that answer
+ * conditional requests with 304. Every request is recorded with its headers.
+ */
+function createFixtureSite() {
+  const pages = new Map<string, FixturePage>();
+  const requests: Array<{ path: string; headers: http.IncomingHttpHeaders; status: number }> = [];
+
+  const server = http.createServer((request, response) => {
+    const pathname = new URL(request.url || '/', 'http://localhost').pathname;
+    const page = pages.get(pathname) || { status: 404, body: 'Not found' };
+    const notModified =
+      (page.etag && request.headers['if-none-match'] === page.etag) ||
+      (page.lastModified && request.headers['if-modified-since'] === page.lastModified);
+    const status = notModified ? 304 : page.status || 200;
+    requests.push({ path: pathname, headers: request.headers, status });
+
+    response.writeHead(status, {
+      'Content-Type': page.contentType || 'text/html; charset=utf-8',
+      ...(page.etag ? { ETag: page.etag } : {}),
+      ...(page.lastModified ? { 'Last-Modified': page.lastModified } : {})
+    });
+    response.end(notModified ? undefined : page.body);
+  });
+
+  return { server, pages, requests };
+}
+
+async function storedChunkCount(url: string): Promise<number> {
+  return (await getVectorStore().list(NAMESPACE, { prefix: getSourceIdPrefix(url) })).length;
+}
+
+describe('crawlDomainDocs', () => {
+  const site = createFixtureSite();
+  let environment: TestEnvironment;
+  let origin: string;
+  const url = (pathname: string) => `${origin}${pathname}`;
+  const requested = (pathname: string) => site.requests.filter(request => request.path === pathname);
+
+  before(async () => {
+    // Progress logs on stdout can corrupt the test runner's reports under Node 20
+    mock.method(console, 'log', () => undefined);
+    mock.method(console, 'warn', () => undefined);
+    environment = await setUpTestEnvironment('crawler-test');
+
+    await new Promise<void>(resolve => site.server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(site.server.address() as AddressInfo).port}`;
+
+    site.pages.set('/robots.txt', {
+      contentType: 'text/plain',
+      body: [
+        'User-agent: *',
+        'Disallow: /docs/private/',
+        '',
+        'User-agent: app-crawler', // only a substring of the crawler's product token
+        'Disallow: /',
+        '',
+        `Sitemap: ${url('/sitemap.xml')}`
+      ].join('\n')
+    });
+    site.pages.set('/sitemap.xml', {
+      contentType: 'application/xml',
+      body: `<?xml version="1.0"?><urlset><url><loc>${url('/docs/from-sitemap')}</loc></url>` +
+        `<url><loc>${url('/blog/announcement')}</loc></url></urlset>`
+    });
+    site.pages.set('/docs/', {
+      etag: '"index-v1"',
+      body: htmlPage('Overview', ['/docs/guide', '/docs/private/secret', '/blog/post', 'http://example.invalid/docs/'])
+    });
+    site.pages.set('/docs/guide', { etag: '"guide-v1"', body: htmlPage('Guide', ['/docs/guide/deep']) });
+    site.pages.set('/docs/guide/deep', {
+      lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+      body: htmlPage('Deep', ['/docs/guide/deeper'])
+    });
+    site.pages.set('/docs/guide/deeper', { body: htmlPage('Deeper') });
+    site.pages.set('/docs/from-sitemap', { etag: '"sitemap-v1"', body: htmlPage('Sitemap') });
+    site.pages.set('/docs/private/secret', { body: htmlPage('Secret') });
+    site.pages.set('/blog/post', { body: htmlPage('Post') });
+    site.pages.set('/blog/announcement', { body: htmlPage('Announcement') });
+
+    addDomain(DOMAIN, {
+      name: 'Crawler Test',
+      namespace: NAMESPACE,
+      systemPrompt: 'Answer from the documentation.',
+      source: url('/docs/'),
+      officialDocUrls: [url('/docs/')],
+      isActive: true,
+      crawl: { maxDepth: 2, requestDelayMs: 0 }
+    });
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await new Promise(resolve => site.server.close(resolve));
+    await environment.restore();
+  });
+
+  it('ingests in-scope pages from links and the sitemap within the depth limit', async () => {
+    const result = await crawlDomainDocs(DOMAIN);
+
+    assert.equal(result.success, true, result.message);
+    for (const pathname of ['/docs/', '/docs/guide', '/docs/guide/deep', '/docs/from-sitemap']) {
+      assert.ok(await storedChunkCount(url(pathname)) > 0, `${pathname} should be ingested`);
+    }
+    assert.ok((result.changes?.added || 0) > 0);
+  });
+
+  it('follows robots.txt and never leaves the path prefixes or the depth limit', () => {
+    assert.equal(requested('/robots.txt').length, 1);
+    assert.equal(requested('/sitemap.xml').length, 1);
+    assert.deepEqual(requested('/docs/private/secret'), [], 'disallowed by robots.txt');
+    assert.deepEqual(requested('/blog/post'), [], 'outside the path prefix');
+    assert.deepEqual(requested('/blog/announcement'), [], 'sitemap URL outside the path prefix');
+    assert.deepEqual(requested('/docs/guide/deeper'), [], 'beyond maxDepth');
+  });
+
+  it('sends the previous ETag and Last-Modified and skips pages answering 304', async () => {
+    site.requests.length = 0;
+    const result = await crawlDomainDocs(DOMAIN);
+
+    assert.equal(result.success, true, result.message);
+    assert.equal(requested('/docs/guide')[0].headers['if-none-match'], '"guide-v1"');
+    assert.equal(requested('/docs/guide/deep')[0].headers['if-modified-since'], 'Mon, 01 Jan 2024 00:00:00 GMT');
+    assert.ok(site.requests.filter(request => request.path.startsWith('/docs/')).every(request => request.status === 304));
+    assert.deepEqual(result.changes, { added: 0, updated: 0, unchanged: 0, deleted: 0 });
+    assert.ok(await storedChunkCount(url('/docs/guide/deep')) > 0, 'links of a 304 page are still followed');
+  });
+
+  it('re-ingests a page whose ETag changed', async () => {
+    site.pages.set('/docs/guide', { etag: '"guide-v2"', body: htmlPage('Guide', ['/docs/guide/deep']).replace('paragraph 3', 'section 3') });
+    const result = await crawlDomainDocs(DOMAIN);
+
+    assert.equal(result.success, true, result.message);
+    assert.equal(requested('/docs/guide').at(-1)?.status, 200);
+    assert.ok((result.changes?.added || 0) + (result.changes?.updated || 0) > 0);
+  });
+
+  it('removes the chunks of pages that answer 404 or 410', async () => {
+    site.pages.set('/docs/from-sitemap', { status: 410, body: 'Gone' });
+    site.pages.delete('/docs/guide/deep');
+    const deepChunks = await storedChunkCount(url('/docs/guide/deep'));
+    const sitemapChunks = await storedChunkCount(url('/docs/from-sitemap'));
+
+    const result = await crawlDomainDocs(DOMAIN);
+
+    assert.equal(result.success, true, result.message);
+    assert.equal(result.changes?.deleted, deepChunks + sitemapChunks);
+    assert.equal(await storedChunkCount(url('/docs/guide/deep')), 0);
+    assert.equal(await storedChunkCount(url('/docs/from-sitemap')), 0);
+    assert.ok(await storedChunkCount(url('/docs/guide')) > 0);
+  });
+
+  it('removes the chunks of a known page that no longer yields any', async () => {
+    site.pages.set('/docs/guide', {
+      etag: '"guide-v3"',
+      body: '<!doctype html><html><head><title>Guide</title></head><body><main><p>Moved.</p></main></body></html>'
+    });
+    const guideChunks = await storedChunkCount(url('/docs/guide'));
+    assert.ok(guideChunks > 0);
+
+    const result = await crawlDomainDocs(DOMAIN);
+
+    assert.equal(result.success, true, result.message);
+    assert.equal(requested('/docs/guide').at(-1)?.status, 200);
+    assert.equal(result.changes?.deleted, guideChunks);
+    assert.equal(await storedChunkCount(url('/docs/guide')), 0);
+  });
+});
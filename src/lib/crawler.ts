@@ -0,0 +1,325 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { removeSource, storeDocuments } from './ai';
+import { CRAWL_CONFIG, TECH_DOMAINS, getCrawlStateConfig } from './config';
+import { chunkSourceText, describeChanges } from './docs';
+import { extractDocumentText, isSupportedFormat } from './fileFormats';
+import { extractHtmlLinks } from './html';
+import { isAllowedByRobots, parseRobotsTxt, type RobotsRules } from './robotsTxt';
+import type { IngestionChanges, IngestionResult } from '@/types';
+
+// What the last crawl saw of a page, for conditional requests
+interface CrawledPage {
+  etag?: string;
+  lastModified?: string;
+  links: string[];                  // Followed again when the page answers 304
+  crawledAt: string;
+}
+
+interface CrawlState {
+  pages: Record<string, CrawledPage>;
+}
+
+interface QueuedUrl {
+  url: string;
+  depth: number;
+}
+
+const SITEMAP_LOC = /<loc>\s*(?:<!\[CDATA\[)?\s*([^<\]]+?)\s*(?:\]\]>)?\s*<\/loc>/g;
+const MAX_SITEMAP_DEPTH = 2;
+
+function normalizeUrl(url: string): string | undefined {
+  try {
+    const resolved = new URL(url);
+    if (!/^https?:$/.test(resolved.protocol)) return undefined;
+    resolved.hash = '';
+    return resolved.href;
+  } catch {
+    return undefined;
+  }
+}
+
+function statePath(domain: string): string {
+  return path.join(getCrawlStateConfig().path, `${domain.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+}
+
+async function loadCrawlState(domain: string): Promise<CrawlState> {
+  try {
+    return { pages: JSON.parse(await fs.readFile(statePath(domain), 'utf-8')).pages || {} };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return { pages: {} };
+  }
+}
+
+async function saveCrawlState(domain: string, state: CrawlState): Promise<void> {
+  const file = statePath(domain);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(state));
+  await fs.rename(`${file}.tmp`, file);
+}
+
+/**
+ * Which URLs the crawl may visit: the start URLs themselves, plus anything on
+ * their hosts under one of the path prefixes. Without configured prefixes,
+ * each directory-like start URL (`/docs/`, `/guide`) is a prefix; file-like
+ * ones (`/llms-full.txt`) are fetched but don't widen the scope.
+ */
+function createScope(startUrls: string[], pathPrefixes?: string[]): (url: string) => boolean {
+  const starts = new Set(startUrls);
+  const origins = new Set(startUrls.map(url => new URL(url).origin));
+  const prefixes = pathPrefixes || startUrls
+    .map(url => new URL(url).pathname)
+    .filter(pathname => !/\.[a-z0-9]+$/i.test(pathname));
+
+  return (url: string) => {
+    if (starts.has(url)) return true;
+    const { origin, pathname } = new URL(url);
+    if (!origins.has(origin)) return false;
+    return prefixes.some(prefix => {
+      const directory = prefix.endsWith('/') ? prefix : `${prefix}/`;
+      return pathname === directory.slice(0, -1) || pathname.startsWith(directory);
+    });
+  };
+}
+
+/**
+ * Fetch with the crawler's user agent, a timeout and a pause between requests
+ * to the same host (the longer of requestDelayMs and the robots.txt Crawl-delay).
+ */
+function createPoliteFetch(requestDelayMs: number) {
+  const lastRequest = new Map<string, number>();
+  const crawlDelays = new Map<string, number>();
+
+  const politeFetch = async (url: string, headers: Record<string, string> = {}): Promise<Response> => {
+    const { origin } = new URL(url);
+    const delay = Math.max(requestDelayMs, crawlDelays.get(origin) || 0);
+    const wait = (lastRequest.get(origin) || 0) + delay - Date.now();
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+    lastRequest.set(origin, Date.now());
+
+    return fetch(url, {
+      headers: { 'User-Agent': CRAWL_CONFIG.userAgent, ...headers },
+      signal: AbortSignal.timeout(CRAWL_CONFIG.timeoutMs)
+    });
+  };
+
+  return {
+    fetch: politeFetch,
+    setCrawlDelay: (origin: string, delayMs: number) => crawlDelays.set(origin, delayMs)
+  };
+}
+
+// robots.txt per RFC 9309: missing (4xx) allows everything, unreachable (5xx, network) allows nothing
+async function fetchRobots(origin: string, politeFetch: (url: string) => Promise<Response>): Promise<RobotsRules> {
+  try {
+    const response = await politeFetch(`${origin}/robots.txt`);
+    if (response.ok) return parseRobotsTxt(await response.text(), CRAWL_CONFIG.userAgent);
+    if (response.status >= 400 && response.status < 500) return { rules: [], sitemaps: [] };
+  } catch (error) {
+    console.warn(`⚠️ Could not fetch ${origin}/robots.txt:`, error instanceof Error ? error.message : error);
+  }
+  return { rules: [{ allow: false, pattern: '/' }], sitemaps: [] };
+}
+
+// Page URLs listed in a sitemap, following sitemap indexes
+async function fetchSitemapUrls(
+  url: string,
+  politeFetch: (url: string) => Promise<Response>,
+  depth = 0
+): Promise<string[]> {
+  try {
+    const response = await politeFetch(url);
+    if (!response.ok) return [];
+    const xml = await response.text();
+    const locations = Array.from(xml.matchAll(SITEMAP_LOC), match => match[1].replace(/&amp;/g, '&'));
+
+    if (!/<sitemapindex[\s>]/.test(xml)) return locations;
+    if (depth >= MAX_SITEMAP_DEPTH) return [];
+    const nested: string[] = [];
+    for (const location of locations) {
+      nested.push(...await fetchSitemapUrls(location, politeFetch, depth + 1));
+    }
+    return nested;
+  } catch (error) {
+    console.warn(`⚠️ Could not read sitemap ${url}:`, error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Crawl a domain's officialDocUrls and ingest every page with its URL as the
+ * source. The crawl starts from those URLs (and the hosts' sitemaps), follows
+ * links breadth-first within the path prefixes and depth limit, honours
+ * robots.txt, and sends If-None-Match / If-Modified-Since from the previous
+ * crawl so unchanged pages (304) are not re-chunked. Pages that now answer
+ * 404/410 have their chunks removed.
+ */
+export async function crawlDomainDocs(domain: string): Promise<IngestionResult> {
+  console.log(`🕷️ Starting documentation crawl for domain: ${domain}`);
+
+  try {
+    const domainConfig = TECH_DOMAINS[domain];
+    if (!domainConfig) {
+      throw new Error(`Domain '${domain}' doesn't exist in configuration`);
+    }
+
+    const startUrls = (domainConfig.officialDocUrls || [])
+      .map(url => normalizeUrl(url))
+      .filter((url): url is string => Boolean(url));
+    if (startUrls.length === 0) {
+      throw new Error(`Domain '${domain}' has no officialDocUrls to crawl`);
+    }
+
+    const settings = { ...CRAWL_CONFIG, ...domainConfig.crawl };
+    const inScope = createScope(startUrls, settings.pathPrefixes);
+    const { fetch: politeFetch, setCrawlDelay } = createPoliteFetch(settings.requestDelayMs);
+    const state = await loadCrawlState(domain);
+
+    const robots = new Map<string, RobotsRules>();
+    for (const origin of new Set(startUrls.map(url => new URL(url).origin))) {
+      const rules = await fetchRobots(origin, politeFetch);
+      robots.set(origin, rules);
+      if (rules.crawlDelayMs) setCrawlDelay(origin, rules.crawlDelayMs);
+    }
+
+    const seen = new Set<string>();
+    const queue: QueuedUrl[] = [];
+    const enqueue = (url: string, depth: number) => {
+      if (seen.has(url) || !inScope(url)) return;
+      seen.add(url);
+      queue.push({ url, depth });
+    };
+
+    startUrls.forEach(url => enqueue(url, 0));
+    if (settings.sitemap) {
+      for (const [origin, rules] of robots) {
+        const sitemaps = rules.sitemaps.length > 0 ? rules.sitemaps : [`${origin}/sitemap.xml`];
+        for (const sitemap of sitemaps) {
+          const urls = await fetchSitemapUrls(sitemap, politeFetch);
+          urls.forEach(url => {
+            const normalized = normalizeUrl(url);
+            if (normalized) enqueue(normalized, 0);
+          });
+        }
+      }
+    }
+    console.log(`🗺️ ${queue.length} URLs to start from (${startUrls.length} configured, the rest from sitemaps)`);
+
+    const changes: IngestionChanges = { added: 0, updated: 0, unchanged: 0, deleted: 0 };
+    const counts = { fetched: 0, ingested: 0, notModified: 0, removed: 0, skipped: 0, failed: 0 };
+    let chunkCount = 0;
+
+    while (queue.length > 0 && counts.fetched < settings.maxPages) {
+      const { url, depth } = queue.shift()!;
+      if (!isAllowedByRobots(robots.get(new URL(url).origin)!, url)) {
+        counts.skipped++;
+        continue;
+      }
+
+      try {
+        const previous = state.pages[url];
+        const headers: Record<string, string> = {};
+        if (previous?.etag) headers['If-None-Match'] = previous.etag;
+        if (previous?.lastModified) headers['If-Modified-Since'] = previous.lastModified;
+
+        const response = await politeFetch(url, headers);
+        counts.fetched++;
+        let links: string[] = [];
+
+        if (response.status === 304 && previous) {
+          counts.notModified++;
+          links = previous.links;
+        } else if (response.status === 404 || response.status === 410) {
+          if (previous) {
+            const deleted = await removeSource(url, domain);
+            changes.deleted += deleted;
+            counts.removed++;
+            delete state.pages[url];
+            await saveCrawlState(domain, state);
+            console.log(`🗑️ ${url} is gone, removed ${deleted} chunks`);
+          }
+          continue;
+        } else if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`);
+        } else {
+          // A redirect to a page outside the crawl, or to one it already covers, is not ingested twice
+          const finalUrl = normalizeUrl(response.url || url) || url;
+          const contentType = response.headers.get('content-type') || '';
+          const fileName = new URL(finalUrl).pathname;
+          if ((finalUrl !== url && (!inScope(finalUrl) || seen.has(finalUrl))) || !isSupportedFormat(fileName, contentType)) {
+            await response.body?.cancel();
+            counts.skipped++;
+            continue;
+          }
+          seen.add(finalUrl);
+
+          const data = new Uint8Array(await response.arrayBuffer());
+          const content = await extractDocumentText(data, fileName, contentType, finalUrl);
+          if (/html/i.test(contentType)) {
+            links = extractHtmlLinks(new TextDecoder().decode(data), finalUrl);
+          }
+
+          const chunks = await chunkSourceText(content, url, domain, 'documentation');
+          if (chunks.length > 0) {
+            const stored = await storeDocuments(chunks, domain);
+            chunkCount += stored.chunks;
+            (Object.keys(changes) as Array<keyof IngestionChanges>).forEach(key => {
+              changes[key] += stored.changes[key];
+            });
+          } else if (previous) {
+            // Nothing left to index on a known page: its old chunks would otherwise linger
+            changes.deleted += await removeSource(url, domain);
+          }
+          counts.ingested++;
+
+          state.pages[url] = {
+            etag: response.headers.get('etag') || undefined,
+            lastModified: response.headers.get('last-modified') || undefined,
+            links,
+            crawledAt: new Date().toISOString()
+          };
+          await saveCrawlState(domain, state);
+          console.log(`📄 ${url}: ${chunks.length} chunks`);
+        }
+
+        if (depth < settings.maxDepth) {
+          links.forEach(link => {
+            const normalized = normalizeUrl(link);
+            if (normalized) enqueue(normalized, depth + 1);
+          });
+        }
+      } catch (error) {
+        counts.failed++;
+        console.warn(`⚠️ Failed to crawl ${url}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (queue.length > 0) {
+      console.warn(`⚠️ Stopped at maxPages (${settings.maxPages}) with ${queue.length} URLs left`);
+    }
+
+    const summary = `${counts.fetched} pages fetched: ${counts.ingested} ingested, ${counts.notModified} not modified, ` +
+      `${counts.removed} removed, ${counts.skipped} skipped, ${counts.failed} failed`;
+    console.log(`✅ Crawl of ${domainConfig.name} finished - ${summary}`);
+
+    return {
+      success: true,
+      message: `Crawled ${domainConfig.name}: ${summary} (${describeChanges(changes)})`,
+      chunks: chunkCount,
+      domain,
+      source: startUrls.join(', '),
+      changes
+    };
+
+  } catch (error) {
+    console.error(`❌ Documentation crawl failed for domain ${domain}:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      success: false,
+      message: `Crawl failed: ${errorMessage}`,
+      chunks: 0,
+      domain
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { getSourceIdPrefix, searchDocuments } from './ai';
+import { chunkSourceText, fetchLlmsTxtDocuments, getTextSource, ingestCustomText } from './docs';
+import { setUpTestEnvironment, type TestEnvironment } from './testEnvironment';
+import { getVectorStore } from './vectorStore';
+
+const DOMAIN = 'paste-test';
+const NAMESPACE = 'paste-test-docs';
+
+const FIRST_PASTE = `# Deploying workers
+
+Workers are deployed with the deploy command and read their signing key from the environment.
+Rolling deploys drain running workers before the new version starts serving traffic.`;
+
+const SECOND_PASTE = `# Billing exports
+
+Billing exports are generated nightly as CSV files and emailed to the account owners.
+Each export lists invoices, credits and the usage recorded for every plan and seat.`;
+
+async function storedChunkCount(source: string): Promise<number> {
+  return (await getVectorStore().list(NAMESPACE, { prefix: getSourceIdPrefix(source) })).length;
+}
+
+describe('ingestCustomText', () => {
+  let environment: TestEnvironment;
+
+  before(async () => {
+    environment = await setUpTestEnvironment('docs-test', {
+      domains: { [DOMAIN]: { name: 'Paste Test', namespace: NAMESPACE, retrieval: { minScore: 0 } } }
+    });
+  });
+
+  after(() => environment.restore());
+
+  it('keeps separate unnamed pastes side by side', async () => {
+    await ingestCustomText(FIRST_PASTE, DOMAIN);
+    const second = await ingestCustomText(SECOND_PASTE, DOMAIN);
+
+    assert.equal(second.changes?.deleted, 0);
+    assert.ok(await storedChunkCount(getTextSource(FIRST_PASTE)) > 0);
+    assert.ok(await storedChunkCount(getTextSource(SECOND_PASTE)) > 0);
+
+    const results = await searchDocuments('rolling deploys drain workers', DOMAIN, 3);
+    assert.equal(results[0]?.source, getTextSource(FIRST_PASTE));
+  });
+
+  it('replaces a named paste when the same name is used again', async () => {
+    const source = getTextSource(FIRST_PASTE, 'Runbook');
+    await ingestCustomText(FIRST_PASTE, DOMAIN, source);
+    const replaced = await ingestCustomText(SECOND_PASTE, DOMAIN, getTextSource(SECOND_PASTE, ' Runbook '));
+
+    assert.ok((replaced.changes?.deleted || 0) > 0);
+    const results = await searchDocuments('rolling deploys drain workers', DOMAIN, 10);
+    assert.ok(results.filter(result => result.source === source).every(result => result.content.includes('Billing')));
+  });
+});
+
+describe('fetchLlmsTxtDocuments', () => {
+  const server = http.createServer((request, response) => {
+    const files: Record<string, string> = {
+      '/llms.txt': '# Acme\n\n> Acme docs\n\n## Guides\n\n- [Retries](/docs/retries.md): How failed steps are retried\n\n' +
+        '## Optional\n\n- [Changelog](/changelog.md)\n',
+      '/docs/retries.md': '# Retries\n\nFailed steps are retried with exponential backoff until the retry limit is reached. ' +
+        'Each retry runs the step again from the start, and steps that already succeeded are not run again.',
+      '/changelog.md': '# Changelog\n\nVersion 2 adds retry limits per step and drops the legacy scheduler entirely.'
+    };
+    const body = files[new URL(request.url || '/', 'http://localhost').pathname];
+    response.writeHead(body ? 200 : 404, { 'Content-Type': 'text/markdown' });
+    response.end(body || 'Not found');
+  });
+  let origin: string;
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('carries each link\'s description and section into the page metadata of its chunks', async () => {
+    const documents = await fetchLlmsTxtDocuments(`${origin}/llms.txt`);
+    assert.deepEqual(documents.map(document => document.page), [
+      { url: `${origin}/docs/retries`, title: 'Retries', description: 'How failed steps are retried', section: 'Guides' },
+      { url: `${origin}/changelog`, title: 'Changelog', section: 'Optional' }
+    ]);
+
+    const [retries] = documents;
+    const chunks = await chunkSourceText(retries.content, retries.source, DOMAIN, 'documentation', retries.page);
+    assert.ok(chunks.length > 0);
+    chunks.forEach(chunk => {
+      assert.equal(chunk.metadata.pageDescription, 'How failed steps are retried');
+      assert.equal(chunk.metadata.pageSection, 'Guides');
+    });
+  });
+});
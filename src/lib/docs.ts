@@ -1,129 +1,143 @@
-import { TECH_DOMAINS } from './config';
+import { createHash } from 'crypto';
+import { CRAWL_CONFIG, TECH_DOMAINS } from './config';
 import { storeDocuments } from './ai';
-import type { DocumentChunk, IngestionResult } from '@/types';
+import { chunkDocument } from './chunking';
+import { extractDocumentText, isSupportedFormat } from './fileFormats';
+import { parseLlmsTxt, splitLlmsFullPages } from './llmsTxt';
+import { chunkOpenApiSpec, parseOpenApiSpec } from './openApi';
+import type {
+  DocumentChunk,
+  DocumentPage,
+  DocumentType,
+  IngestionChanges,
+  IngestionResult,
+  SourceDocument
+} from '@/types';
 
-// Parse and chunk markdown content into smaller pieces
-export function parseMarkdownToChunks(
-  content: string,
+export function describeChanges(changes: IngestionChanges): string {
+  return `${changes.added} added, ${changes.updated} updated, ${changes.unchanged} unchanged, ${changes.deleted} deleted`;
+}
+
+// Chunk the text of one source: an OpenAPI spec by operation, anything else page by page
+// when it bundles pages (llms-full.txt); `page` applies to text outside any page marker
+export async function chunkSourceText(
+  text: string,
+  source: string,
   domain: string,
-  source: string = 'documentation'
-): DocumentChunk[] {
+  type: DocumentType,
+  page?: DocumentPage
+): Promise<DocumentChunk[]> {
+  const spec = parseOpenApiSpec(text);
+  if (spec) {
+    return chunkOpenApiSpec(spec, { source, domain, type, page });
+  }
+
   const chunks: DocumentChunk[] = [];
-  
-  // Split by major sections (## headers)
-  const sections = content.split(/^## /m);
-  
-  sections.forEach((section, sectionIndex) => {
-    if (!section.trim()) return;
-    
-    const lines = section.split('\n');
-    const sectionTitle = sectionIndex === 0 ? 'Introduction' : lines[0]?.trim() || `Section ${sectionIndex}`;
-    const sectionContent = lines.slice(1).join('\n').trim();
-    
-    // Further split large sections by subsections (### headers)
-    const subsections = sectionContent.split(/^### /m);
-    
-    subsections.forEach((subsection, subIndex) => {
-      if (!subsection.trim()) return;
-      
-      const subLines = subsection.split('\n');
-      const subTitle = subIndex === 0 ? '' : subLines[0]?.trim() || '';
-      const subContent = subLines.slice(subIndex === 0 ? 0 : 1).join('\n').trim();
-      
-      // Create chunks with optimal size
-      const processedChunks = createOptimalChunks(
-        subContent,
-        sectionTitle,
-        subTitle,
-        domain,
-        source
-      );
-      
-      chunks.push(...processedChunks);
-    });
+  for (const entry of splitLlmsFullPages(text, source)) {
+    chunks.push(...await chunkDocument(entry.content, { source, domain, type, page: entry.page || page }));
+  }
+  return chunks;
+}
+
+async function fetchDocument(url: string): Promise<Response> {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': CRAWL_CONFIG.userAgent },
+    signal: AbortSignal.timeout(CRAWL_CONFIG.timeoutMs)
   });
-  
-  // Filter out chunks that are too small
-  return chunks.filter(chunk => chunk.content.length >= 100); // minChunkSize
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  return response;
 }
 
-// Create optimally sized chunks from content
-function createOptimalChunks(
-  content: string,
-  sectionTitle: string,
-  subTitle: string,
-  domain: string,
-  source: string
-): DocumentChunk[] {
-  const chunks: DocumentChunk[] = [];
-  const maxSize = 1200; // maxChunkSize
-  
-  if (content.length <= maxSize) {
-    // Content fits in one chunk
-    const title = subTitle ? `${sectionTitle} - ${subTitle}` : sectionTitle;
-    chunks.push({
-      content: `# ${title}\n\n${content}`,
-      metadata: {
-        source,
-        section: sectionTitle,
-        subsection: subTitle,
-        type: 'documentation',
-        chunkIndex: 0,
-        domain
-      }
-    });
-  } else {
-    // Split large content by paragraphs
-    const paragraphs = content.split(/\n\s*\n/);
-    let currentChunk = '';
-    let chunkIndex = 0;
-    
-    paragraphs.forEach((paragraph) => {
-      const trimmedParagraph = paragraph.trim();
-      if (!trimmedParagraph) return;
-      
-      // Check if adding this paragraph would exceed max size
-      if (currentChunk.length + trimmedParagraph.length > maxSize) {
-        if (currentChunk) {
-          // Save current chunk
-          const title = subTitle ? `${sectionTitle} - ${subTitle}` : sectionTitle;
-          chunks.push({
-            content: `# ${title}\n\n${currentChunk}`,
-            metadata: {
-              source,
-              section: sectionTitle,
-              subsection: subTitle,
-              type: 'documentation',
-              chunkIndex,
-              domain
-            }
-          });
-          chunkIndex++;
-        }
-        currentChunk = trimmedParagraph;
-      } else {
-        currentChunk += (currentChunk ? '\n\n' : '') + trimmedParagraph;
-      }
-    });
-    
-    // Save the last chunk
-    if (currentChunk) {
-      const title = subTitle ? `${sectionTitle} - ${subTitle}` : sectionTitle;
-      chunks.push({
-        content: `# ${title}\n\n${currentChunk}`,
-        metadata: {
-          source,
-          section: sectionTitle,
-          subsection: subTitle,
-          type: 'documentation',
-          chunkIndex,
-          domain
+/**
+ * Fetch an llms.txt index and every document it links to, one after another.
+ * Each document cites its linked URL as the source and the link text as the
+ * page title, and carries the link's description and `##` section along with
+ * the page. An index without links is returned as a document itself.
+ */
+export async function fetchLlmsTxtDocuments(indexUrl: string): Promise<SourceDocument[]> {
+  const indexText = await (await fetchDocument(indexUrl)).text();
+  const index = parseLlmsTxt(indexText, indexUrl);
+  if (index.links.length === 0) {
+    return [{ content: indexText, source: indexUrl }];
+  }
+
+  console.log(`📚 ${index.title || indexUrl} links to ${index.links.length} documents`);
+  const documents: SourceDocument[] = [];
+  for (const link of index.links) {
+    try {
+      const response = await fetchDocument(link.url);
+      const fileName = new URL(response.url || link.url).pathname;
+      const contentType = response.headers.get('content-type') || '';
+      const content = isSupportedFormat(fileName, contentType)
+        ? await extractDocumentText(new Uint8Array(await response.arrayBuffer()), fileName, contentType, response.url || link.url)
+        : await response.text();
+      documents.push({
+        content,
+        source: link.url,
+        page: {
+          ...link.page,
+          ...(link.description && { description: link.description }),
+          ...(link.section && { section: link.section })
         }
       });
+    } catch (error) {
+      console.warn(`⚠️ Skipping ${link.url}:`, error instanceof Error ? error.message : error);
     }
   }
-  
-  return chunks;
+
+  if (documents.length === 0) {
+    throw new Error(`None of the ${index.links.length} documents linked from ${indexUrl} could be fetched`);
+  }
+  console.log(`📄 Fetched ${documents.length}/${index.links.length} linked documents`);
+  return documents;
+}
+
+// Ingest the per-page documents an llms.txt index links to
+export async function ingestLlmsTxt(indexUrl: string, domain: string): Promise<IngestionResult> {
+  console.log(`🚀 Starting llms.txt ingestion from ${indexUrl} for domain: ${domain}`);
+
+  try {
+    const domainConfig = TECH_DOMAINS[domain];
+    if (!domainConfig) {
+      throw new Error(`Domain '${domain}' doesn't exist in configuration`);
+    }
+
+    const chunks: DocumentChunk[] = [];
+    for (const document of await fetchLlmsTxtDocuments(indexUrl)) {
+      chunks.push(...await chunkSourceText(document.content, document.source, domain, 'documentation', document.page));
+    }
+    console.log(`✂️ Created ${chunks.length} chunks from ${new Set(chunks.map(chunk => chunk.metadata.source)).size} documents`);
+
+    if (chunks.length === 0) {
+      throw new Error(`No valid chunks created from ${indexUrl}`);
+    }
+
+    // Store in the vector store
+    const { chunks: storedCount, changes } = await storeDocuments(chunks, domain);
+
+    console.log(`✅ Successfully stored ${storedCount} chunks in namespace: ${domainConfig.namespace}`);
+
+    return {
+      success: true,
+      message: `Successfully ingested ${indexUrl} for ${domainConfig.name}: ${storedCount} chunks (${describeChanges(changes)})`,
+      chunks: storedCount,
+      domain,
+      source: indexUrl,
+      changes
+    };
+
+  } catch (error) {
+    console.error(`❌ llms.txt ingestion failed for domain ${domain}:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      success: false,
+      message: `llms.txt ingestion failed: ${errorMessage}`,
+      chunks: 0,
+      domain
+    };
+  }
 }
 
 // Ingest Inngest documentation from their LLM-optimized format
@@ -141,24 +155,26 @@ export async function ingestInngestDocs(): Promise<IngestionResult> {
     console.log(`📄 Downloaded ${fullDocs.length} characters of Inngest documentation`);
     
     // Parse and chunk the documentation
-    const chunks = parseMarkdownToChunks(fullDocs, 'inngest', 'https://www.inngest.com/llms-full.txt');
-    console.log(`✂️ Created ${chunks.length} chunks from Inngest documentation`);
+    const chunks = await chunkSourceText(fullDocs, 'https://www.inngest.com/llms-full.txt', 'inngest', 'documentation');
+    const pages = new Set(chunks.map(chunk => chunk.metadata.pageUrl).filter(Boolean));
+    console.log(`✂️ Created ${chunks.length} chunks from ${pages.size} Inngest documentation pages`);
     
     if (chunks.length === 0) {
       throw new Error("No valid chunks created from Inngest documentation");
     }
     
-    // Store in Pinecone
-    const storedCount = await storeDocuments(chunks, 'inngest');
+    // Store in the vector store
+    const { chunks: storedCount, changes } = await storeDocuments(chunks, 'inngest');
     
-    console.log(`✅ Successfully stored ${storedCount} chunks in Pinecone namespace: inngest-docs`);
+    console.log(`✅ Successfully stored ${storedCount} chunks in namespace: inngest-docs`);
     
     return {
       success: true,
-      message: `Successfully ingested Inngest documentation: ${storedCount} chunks`,
+      message: `Successfully ingested Inngest documentation: ${storedCount} chunks (${describeChanges(changes)})`,
       chunks: storedCount,
       domain: 'inngest',
-      source: 'https://www.inngest.com/llms-full.txt'
+      source: 'https://www.inngest.com/llms-full.txt',
+      changes
     };
     
   } catch (error) {
@@ -173,11 +189,22 @@ export async function ingestInngestDocs(): Promise<IngestionResult> {
   }
 }
 
+/**
+ * Source label for pasted text. A name makes the text replaceable: ingesting
+ * under the same name again updates it. Unnamed text is labelled by a hash of
+ * its content, so separate pastes never replace (and delete) each other.
+ */
+export function getTextSource(text: string, name?: string): string {
+  const trimmed = name?.trim();
+  if (trimmed) return `Direct input: ${trimmed}`;
+  return `Direct input #${createHash('sha256').update(text).digest('hex').substring(0, 12)}`;
+}
+
 // Generic function to ingest custom text content
 export async function ingestCustomText(
   text: string,
   domain: string,
-  source: string = 'custom-upload'
+  source: string = getTextSource(text)
 ): Promise<IngestionResult> {
   console.log(`🚀 Starting custom text ingestion for domain: ${domain}`);
   
@@ -188,24 +215,25 @@ export async function ingestCustomText(
     }
     
     // Parse and chunk the text
-    const chunks = parseMarkdownToChunks(text, domain, source);
+    const chunks = await chunkSourceText(text, source, domain, 'custom');
     console.log(`✂️ Created ${chunks.length} chunks from custom text`);
     
     if (chunks.length === 0) {
       throw new Error("No valid chunks created from provided text");
     }
     
-    // Store in Pinecone
-    const storedCount = await storeDocuments(chunks, domain);
+    // Store in the vector store
+    const { chunks: storedCount, changes } = await storeDocuments(chunks, domain);
     
-    console.log(`✅ Successfully stored ${storedCount} chunks in Pinecone namespace: ${domainConfig.namespace}`);
+    console.log(`✅ Successfully stored ${storedCount} chunks in namespace: ${domainConfig.namespace}`);
     
     return {
       success: true,
-      message: `Successfully ingested custom text for ${domainConfig.name}: ${storedCount} chunks`,
+      message: `Successfully ingested custom text for ${domainConfig.name}: ${storedCount} chunks (${describeChanges(changes)})`,
       chunks: storedCount,
       domain,
-      source
+      source,
+      changes
     };
     
   } catch (error) {
@@ -222,7 +250,7 @@ export async function ingestCustomText(
 
 // Process uploaded file content
 export async function processUploadedFile(
-  fileContent: string,
+  fileContent: string | Uint8Array,
   fileName: string,
   domain: string
 ): Promise<IngestionResult> {
@@ -231,18 +259,18 @@ export async function processUploadedFile(
   try {
     // Determine file type and process accordingly
     const fileExtension = fileName.split('.').pop()?.toLowerCase();
-    let processedContent = fileContent;
+    // Binary formats (PDF) are converted to text first
+    let processedContent = typeof fileContent === 'string'
+      ? fileContent
+      : await extractDocumentText(fileContent, fileName);
     
-    // For now, treat all files as text/markdown
-    // Future: Add specific processors for PDF, DOCX, etc.
     if (fileExtension === 'json') {
       // If it's JSON, convert to readable text
       try {
-        const jsonData = JSON.parse(fileContent);
+        const jsonData = JSON.parse(processedContent);
         processedContent = JSON.stringify(jsonData, null, 2);
       } catch {
         // If JSON parsing fails, treat as plain text
-        processedContent = fileContent;
       }
     }
     
@@ -289,41 +317,30 @@ export async function testPineconeConnection(): Promise<{ success: boolean; mess
 
 // Generic document ingestion function for uploads
 export async function ingestDocuments(
-  documents: Array<{ content: string; source: string; section: string }>,
+  chunks: DocumentChunk[],
   domain: string
 ): Promise<IngestionResult> {
   console.log(`🚀 Starting document ingestion for domain: ${domain}`);
   
   try {
-    // Convert to DocumentChunk format
-    const chunks: DocumentChunk[] = documents.map((doc, index) => ({
-      content: doc.content,
-      metadata: {
-        source: doc.source,
-        section: doc.section,
-        type: 'custom' as const,
-        chunkIndex: index,
-        domain
-      }
-    }));
-    
     console.log(`✂️ Processing ${chunks.length} chunks for domain: ${domain}`);
     
     if (chunks.length === 0) {
       throw new Error("No valid chunks created from provided documents");
     }
     
-    // Store in Pinecone
-    const storedCount = await storeDocuments(chunks, domain);
+    // Store in the vector store
+    const { chunks: storedCount, changes } = await storeDocuments(chunks, domain);
     
-    console.log(`✅ Successfully stored ${storedCount} chunks in Pinecone namespace: ${domain}-docs`);
+    console.log(`✅ Successfully stored ${storedCount} chunks in namespace: ${domain}-docs`);
     
     return {
       success: true,
-      message: `Successfully ingested documents: ${storedCount} chunks`,
+      message: `Successfully ingested documents: ${storedCount} chunks (${describeChanges(changes)})`,
       chunks: storedCount,
       domain,
-      source: 'User upload'
+      source: 'User upload',
+      changes
     };
     
   } catch (error) {
@@ -337,64 +354,3 @@ export async function ingestDocuments(
     };
   }
 }
-
-// Enhanced document processing function
-export function processDocumentText(
-  text: string, 
-  source: string
-): Array<{ content: string; source: string; section: string }> {
-  const chunks: Array<{ content: string; source: string; section: string }> = [];
-  
-  // Split into sections based on headers
-  const sections = text.split(/(?=^#{1,6}\s)/m);
-  
-  for (let i = 0; i < sections.length; i++) {
-    const section = sections[i].trim();
-    if (!section) continue;
-    
-    // Extract section title
-    const titleMatch = section.match(/^#{1,6}\s(.+)/);
-    const sectionTitle = titleMatch ? titleMatch[1] : `Section ${i + 1}`;
-    
-    // Split large sections into smaller chunks
-    const sectionChunks = chunkText(section, 1000);
-    
-    sectionChunks.forEach((chunk, chunkIndex) => {
-      if (chunk.trim().length > 50) { // Only include substantial chunks
-        chunks.push({
-          content: chunk.trim(),
-          source,
-          section: sectionChunks.length > 1 ? `${sectionTitle} (Part ${chunkIndex + 1})` : sectionTitle
-        });
-      }
-    });
-  }
-  
-  return chunks;
-}
-
-// Utility function to split text into chunks
-function chunkText(text: string, maxChars: number): string[] {
-  if (text.length <= maxChars) {
-    return [text];
-  }
-  
-  const chunks: string[] = [];
-  const paragraphs = text.split('\n\n');
-  let currentChunk = '';
-  
-  for (const paragraph of paragraphs) {
-    if (currentChunk.length + paragraph.length > maxChars && currentChunk) {
-      chunks.push(currentChunk.trim());
-      currentChunk = paragraph;
-    } else {
-      currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
-    }
-  }
-  
-  if (currentChunk) {
-    chunks.push(currentChunk.trim());
-  }
-  
-  return chunks;
-}
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import type { ExpertiseDomain } from '@/types';
+
+const positiveInt = z.number().int().positive();
+const unitInterval = z.number().min(0).max(1);
+
+// Also validates per-request overrides, so a request cannot ask for more paraphrases than a domain may
+export const queryExpansionSchema = z.object({
+  enabled: z.boolean(),
+  paraphrases: z.number().int().min(0).max(10),
+  hyde: z.boolean()
+}).partial().strict();
+
+const retrievalSchema = z.object({
+  topK: positiveInt.max(50),
+  minScore: unitInterval,
+  hybrid: z.object({
+    enabled: z.boolean(),
+    vectorWeight: z.number().nonnegative(),
+    lexicalWeight: z.number().nonnegative(),
+    rrfK: positiveInt,
+    candidates: positiveInt
+  }).partial().strict(),
+  rerank: z.object({
+    enabled: z.boolean(),
+    provider: z.enum(['llm', 'cross-encoder', 'lexical']),
+    candidates: positiveInt,
+    topN: positiveInt
+  }).partial().strict(),
+  queryExpansion: queryExpansionSchema,
+  mmr: z.object({
+    enabled: z.boolean(),
+    lambda: unitInterval,
+    candidates: positiveInt
+  }).partial().strict(),
+  neighbors: z.object({
+    enabled: z.boolean(),
+    mode: z.enum(['siblings', 'parent']),
+    window: z.number().int().min(0),
+    maxChunks: positiveInt
+  }).partial().strict(),
+  federation: z.object({
+    weight: z.number().nonnegative(),
+    quota: positiveInt
+  }).partial().strict()
+}).partial().strict();
+
+// Settings blocks of ExpertiseDomain; the descriptive fields are not checked here
+export const domainSettingsSchema = z.object({
+  retrieval: retrievalSchema,
+  generation: z.object({
+    temperature: z.number().min(0).max(2),
+    maxTokens: positiveInt,
+    contextTokens: positiveInt
+  }).partial().strict(),
+  confidence: z.object({
+    policy: z.enum(['answer', 'warn', 'refuse']),
+    high: unitInterval,
+    medium: unitInterval
+  }).partial().strict(),
+  chunking: z.object({
+    strategy: z.enum(['heading', 'all-headings', 'sliding-window', 'token', 'semantic', 'paragraph']),
+    maxChunkSize: positiveInt,
+    chunkOverlap: z.number().int().min(0),
+    minChunkSize: z.number().int().min(0),
+    maxChunkTokens: positiveInt,
+    chunkOverlapTokens: z.number().int().min(0),
+    semanticThreshold: z.number().min(-1).max(1),
+    semanticMinChunkSize: z.number().int().min(0)
+  }).partial().strict(),
+  crawl: z.object({
+    pathPrefixes: z.array(z.string().startsWith('/')),
+    maxPages: positiveInt,
+    maxDepth: z.number().int().min(0),
+    requestDelayMs: z.number().int().min(0),
+    sitemap: z.boolean()
+  }).partial().strict(),
+  models: z.object({
+    answer: z.string().min(1),
+    classify: z.string().min(1),
+    rewrite: z.string().min(1)
+  }).partial().strict()
+}).partial();
+
+// Throws a readable error when a domain's settings are invalid
+export function validateDomainSettings(domain: string, config: ExpertiseDomain): void {
+  const result = domainSettingsSchema.safeParse({
+    retrieval: config.retrieval,
+    generation: config.generation,
+    chunking: config.chunking,
+    crawl: config.crawl,
+    confidence: config.confidence,
+    models: config.models
+  });
+
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid settings for domain '${domain}' - ${issues.join('; ')}`);
+  }
+}
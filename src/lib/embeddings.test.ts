@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { DiskEmbeddingCache, getEmbeddingCacheKey } from './embeddings';
+
+describe('DiskEmbeddingCache', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'embedding-cache-test-'));
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps texts apart when the model name contains a colon', async () => {
+    const cache = new DiskEmbeddingCache(directory);
+    const first = getEmbeddingCacheKey('openai-compatible-nomic-embed-text:latest', 'first text');
+    const second = getEmbeddingCacheKey('openai-compatible-nomic-embed-text:latest', 'second text');
+
+    await cache.setMany([{ key: first, embedding: [1, 0] }]);
+    assert.deepEqual(await cache.getMany([first, second]), [[1, 0], undefined]);
+
+    await cache.setMany([{ key: second, embedding: [0, 1] }]);
+    assert.deepEqual(await cache.getMany([first, second]), [[1, 0], [0, 1]]);
+  });
+});
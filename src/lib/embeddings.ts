@@ -0,0 +1,195 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import Redis from 'ioredis';
+import OpenAI from 'openai';
+import { EMBEDDING_CONFIG, getEmbeddingCacheConfig, getModelConfig } from './config';
+import { getModelProvider } from './modelProvider';
+
+/**
+ * Persistent embedding cache keyed by model + content hash. Lookups and
+ * writes are best effort: a failing cache never fails an embedding request.
+ */
+export interface EmbeddingCache {
+  getMany(keys: string[]): Promise<Array<number[] | undefined>>;
+  setMany(entries: Array<{ key: string; embedding: number[] }>): Promise<void>;
+}
+
+// One JSON file per embedding, sharded by the first two hash characters
+export class DiskEmbeddingCache implements EmbeddingCache {
+  constructor(private directory: string) {}
+
+  async getMany(keys: string[]): Promise<Array<number[] | undefined>> {
+    return Promise.all(keys.map(async key => {
+      try {
+        return JSON.parse(await fs.readFile(this.filePath(key), 'utf-8')) as number[];
+      } catch {
+        return undefined;
+      }
+    }));
+  }
+
+  async setMany(entries: Array<{ key: string; embedding: number[] }>): Promise<void> {
+    await Promise.all(entries.map(async ({ key, embedding }) => {
+      const file = this.filePath(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(embedding));
+    }));
+  }
+
+  // The hash follows the last ':', since model names may contain one (e.g. 'nomic-embed-text:latest')
+  private filePath(key: string): string {
+    const separator = key.lastIndexOf(':');
+    const model = key.substring(0, separator);
+    const hash = key.substring(separator + 1);
+    return path.join(this.directory, model.replace(/[^a-zA-Z0-9_.-]/g, '_'), hash.substring(0, 2), `${hash}.json`);
+  }
+}
+
+export class RedisEmbeddingCache implements EmbeddingCache {
+  private redis: Redis;
+
+  constructor(redisUrl: string, private ttlSeconds?: number) {
+    this.redis = new Redis(redisUrl, { lazyConnect: true, maxRetriesPerRequest: 1 });
+  }
+
+  async getMany(keys: string[]): Promise<Array<number[] | undefined>> {
+    if (keys.length === 0) return [];
+    const values = await this.redis.mget(keys.map(key => `embedding:${key}`));
+    return values.map(value => (value ? JSON.parse(value) as number[] : undefined));
+  }
+
+  async setMany(entries: Array<{ key: string; embedding: number[] }>): Promise<void> {
+    if (entries.length === 0) return;
+    const pipeline = this.redis.pipeline();
+    entries.forEach(({ key, embedding }) => {
+      if (this.ttlSeconds) {
+        pipeline.set(`embedding:${key}`, JSON.stringify(embedding), 'EX', this.ttlSeconds);
+      } else {
+        pipeline.set(`embedding:${key}`, JSON.stringify(embedding));
+      }
+    });
+    await pipeline.exec();
+  }
+}
+
+// Lazy initialization of the cache
+let embeddingCache: EmbeddingCache | null | undefined;
+
+function getEmbeddingCache(): EmbeddingCache | null {
+  if (embeddingCache === undefined) {
+    const config = getEmbeddingCacheConfig();
+    embeddingCache = config.provider === 'redis'
+      ? new RedisEmbeddingCache(config.redisUrl, config.ttlSeconds)
+      : config.provider === 'disk'
+        ? new DiskEmbeddingCache(config.diskPath)
+        : null;
+  }
+  return embeddingCache;
+}
+
+export function getEmbeddingCacheKey(model: string, text: string): string {
+  return `${model}:${createHash('sha256').update(text).digest('hex')}`;
+}
+
+// Retry rate-limited and transient failures with exponential backoff,
+// honoring the server's Retry-After header when present
+async function withBackoff<T>(operation: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const status = error instanceof OpenAI.APIError ? error.status : undefined;
+      const retryable = status === 429 || (status !== undefined && status >= 500);
+      if (!retryable || attempt >= EMBEDDING_CONFIG.maxRetries) throw error;
+
+      const retryAfter = Number((error as InstanceType<typeof OpenAI.APIError>).headers?.get('retry-after'));
+      const delay = retryAfter > 0
+        ? retryAfter * 1000
+        : EMBEDDING_CONFIG.initialBackoffMs * 2 ** attempt * (0.5 + Math.random() / 2);
+
+      console.warn(`Embedding request failed with ${status}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${EMBEDDING_CONFIG.maxRetries})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// Run tasks with at most `limit` in flight
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  }));
+
+  return results;
+}
+
+/**
+ * Embed many texts: cached embeddings are reused, the rest are sent as array
+ * inputs in batches with bounded concurrency, then written back to the cache.
+ */
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  try {
+    const provider = getModelProvider();
+    const model = getModelConfig().embeddingModel;
+    const inputs = texts.map(text => text.substring(0, 8000)); // Token limit safety
+    // Provider-qualified, so fake or self-hosted embeddings never mix with OpenAI's
+    const keys = inputs.map(input => getEmbeddingCacheKey(`${provider.name}-${model}`, input));
+    const cache = getEmbeddingCache();
+
+    const cached = cache
+      ? await cache.getMany(keys).catch(error => {
+          console.warn('Embedding cache lookup failed:', error);
+          return keys.map(() => undefined);
+        })
+      : keys.map(() => undefined);
+
+    // Embed each distinct uncached text once
+    const missing = new Map<string, string>();
+    keys.forEach((key, index) => {
+      if (!cached[index]) missing.set(key, inputs[index]);
+    });
+
+    const fresh = new Map<string, number[]>();
+    if (missing.size > 0) {
+      const missingKeys = Array.from(missing.keys());
+      const batches: string[][] = [];
+      for (let i = 0; i < missingKeys.length; i += EMBEDDING_CONFIG.batchSize) {
+        batches.push(missingKeys.slice(i, i + EMBEDDING_CONFIG.batchSize));
+      }
+
+      await mapWithConcurrency(batches, EMBEDDING_CONFIG.concurrency, async batch => {
+        const embeddings = await withBackoff(() => provider.embed(model, batch.map(key => missing.get(key)!)));
+        embeddings.forEach((embedding, index) => fresh.set(batch[index], embedding));
+      });
+
+      if (cache) {
+        await cache.setMany(Array.from(fresh, ([key, embedding]) => ({ key, embedding }))).catch(error => {
+          console.warn('Embedding cache write failed:', error);
+        });
+      }
+    }
+
+    if (texts.length > 1) {
+      console.log(`Embeddings: ${texts.length - missing.size} reused, ${missing.size} generated in ${Math.ceil(missing.size / EMBEDDING_CONFIG.batchSize)} requests`);
+    }
+
+    return keys.map((key, index) => cached[index] || fresh.get(key)!);
+
+  } catch (error) {
+    console.error('Error generating embeddings:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to generate embedding: ${errorMessage}`);
+  }
+}
+
+// Generate a single embedding (queries go through the same cache)
+export async function generateEmbedding(text: string): Promise<number[]> {
+  const [embedding] = await generateEmbeddings([text]);
+  return embedding;
+}
@@ -0,0 +1,39 @@
+import { UPLOAD_FORMATS } from './config';
+import { extractHtmlText } from './html';
+import { extractDocxText, extractOdtText } from './officeDocuments';
+import { extractPdfText } from './pdf';
+
+function getExtension(fileName: string): string {
+  const match = fileName.toLowerCase().match(/\.[a-z0-9]+$/);
+  return match ? match[0] : '';
+}
+
+function formatOf(fileName: string, contentType: string): string | undefined {
+  const extension = getExtension(fileName);
+  if (UPLOAD_FORMATS[extension]) return UPLOAD_FORMATS[extension];
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  if (Object.values(UPLOAD_FORMATS).includes(mimeType)) return mimeType;
+  return mimeType.startsWith('text/') ? 'text/plain' : undefined;
+}
+
+export function isSupportedFormat(fileName: string, contentType = ''): boolean {
+  return formatOf(fileName, contentType) !== undefined;
+}
+
+// Text (markdown where the format has structure) of an uploaded or fetched document; `url` is where it was fetched from
+export async function extractDocumentText(data: Uint8Array, fileName: string, contentType = '', url?: string): Promise<string> {
+  switch (formatOf(fileName, contentType)) {
+    case 'text/html':
+      return extractHtmlText(new TextDecoder().decode(data), url);
+    case 'application/pdf':
+      return extractPdfText(data, fileName);
+    case UPLOAD_FORMATS['.docx']:
+      return extractDocxText(data, fileName);
+    case UPLOAD_FORMATS['.odt']:
+      return extractOdtText(data, fileName);
+    case undefined:
+      throw new Error(`Unsupported file type for ${fileName} - supported formats: ${Object.keys(UPLOAD_FORMATS).join(', ')}`);
+    default:
+      return new TextDecoder().decode(data);
+  }
+}
@@ -0,0 +1,104 @@
+import { Readability } from '@mozilla/readability';
+import { parseHTML } from 'linkedom';
+import { htmlToMarkdown } from './htmlToMarkdown';
+
+// Class and attribute conventions highlighters use for a code block's language
+const LANGUAGE_CLASS = /(?:^|\s)(?:lang(?:uage)?-|highlight-(?:source-)?|brush:\s*)([\w+#-]+)/i;
+
+// Page chrome removed before extraction; headers and footers only at page level, since articles have their own
+const BOILERPLATE = [
+  'script', 'style', 'noscript', 'template', 'nav', 'aside', 'form',
+  'body > header', 'body > footer', '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]'
+].join(', ');
+
+function resolveUrl(url: string, base?: string): string | undefined {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function oneLine(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+// Rewrite links and image sources to absolute URLs; in-page anchors are dropped
+function absolutizeLinks(document: Document, base: string): void {
+  for (const [selector, attribute] of [['a[href]', 'href'], ['img[src]', 'src']]) {
+    document.querySelectorAll(selector).forEach(element => {
+      const value = element.getAttribute(attribute) || '';
+      const resolved = value.startsWith('#') || value.startsWith('javascript:') ? undefined : resolveUrl(value, base);
+      if (resolved) {
+        element.setAttribute(attribute, resolved);
+      } else if (attribute === 'href') {
+        element.removeAttribute(attribute);
+      }
+    });
+  }
+}
+
+// Move each code block's language onto its <pre> as `language-x`, the one class kept through extraction
+function normalizeCodeLanguages(document: Document): string[] {
+  const classes = new Set<string>();
+  document.querySelectorAll('pre').forEach(pre => {
+    const code = pre.querySelector('code');
+    const language = [pre, code, pre.parentElement]
+      .map(element => element?.getAttribute('data-language') || element?.getAttribute('class')?.match(LANGUAGE_CLASS)?.[1])
+      .find(Boolean)
+      ?.toLowerCase();
+    if (!language) return;
+
+    pre.setAttribute('class', `language-${language}`);
+    code?.removeAttribute('class');
+    classes.add(`language-${language}`);
+  });
+  return Array.from(classes);
+}
+
+/**
+ * Convert an HTML page to markdown, keeping only its main content: navigation,
+ * sidebars and page headers/footers are removed and Readability picks the
+ * article, falling back to `<main>` or the body. Headings, tables and code
+ * blocks (with their language) are kept and links point to absolute URLs.
+ * When the page has a URL, the output starts with a `# Title` /
+ * `Source: <canonical url>` page marker, so chunks record the page title and
+ * canonical URL like llms-full.txt pages.
+ */
+export function extractHtmlText(html: string, url?: string): string {
+  const { document } = parseHTML(html);
+  const base = resolveUrl(document.querySelector('base[href]')?.getAttribute('href') || '', url) || url;
+  const canonical = resolveUrl(document.querySelector('link[rel="canonical"][href]')?.getAttribute('href') || '', base) || url;
+  const pageTitle = oneLine(document.querySelector('title')?.textContent);
+
+  if (base) absolutizeLinks(document, base);
+  const classesToPreserve = normalizeCodeLanguages(document);
+  document.querySelectorAll(BOILERPLATE).forEach(element => element.remove());
+
+  const article = new Readability(document.cloneNode(true) as Document, { classesToPreserve }).parse();
+  const content = article?.content ||
+    document.querySelector('main, [role="main"], article')?.innerHTML ||
+    document.body?.innerHTML ||
+    '';
+
+  const markdown = htmlToMarkdown(content);
+  const title = oneLine(article?.title) || pageTitle || oneLine(document.querySelector('h1')?.textContent);
+  if (!title) return markdown;
+  return canonical && /^https?:\/\//.test(canonical)
+    ? `# ${title}\nSource: ${canonical}\n\n${markdown}`
+    : `# ${title}\n\n${markdown}`;
+}
+
+// Absolute http(s) URLs the page links to (fragments removed), skipping rel="nofollow" links
+export function extractHtmlLinks(html: string, url: string): string[] {
+  const { document } = parseHTML(html);
+  const base = resolveUrl(document.querySelector('base[href]')?.getAttribute('href') || '', url) || url;
+  const links = new Set<string>();
+  document.querySelectorAll('a[href]').forEach(anchor => {
+    if (/\bnofollow\b/i.test(anchor.getAttribute('rel') || '')) return;
+    const resolved = resolveUrl(anchor.getAttribute('href') || '', base);
+    if (!resolved || !/^https?:\/\//.test(resolved)) return;
+    links.add(resolved.replace(/#.*$/, ''));
+  });
+  return Array.from(links);
+}
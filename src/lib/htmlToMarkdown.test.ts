@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { htmlToMarkdown } from './htmlToMarkdown';
+
+describe('htmlToMarkdown lists', () => {
+  it('keeps items tight when they hold several paragraphs', () => {
+    assert.equal(
+      htmlToMarkdown('<ul><li><p>First</p><p>More</p></li><li><p>Second</p></li></ul>'),
+      '- First\n  More\n- Second'
+    );
+  });
+
+  it('keeps the blank lines of a code block nested in an item', () => {
+    const markdown = htmlToMarkdown(
+      '<ol><li><p>Define the function:</p><pre><code class="language-ts">const a = 1;\n\nconst b = 2;</code></pre></li></ol>'
+    );
+    assert.equal(markdown, '1. Define the function:\n   ```ts\n   const a = 1;\n   \n   const b = 2;\n   ```');
+  });
+
+  it('keeps blank lines inside a fence of a nested list', () => {
+    const markdown = htmlToMarkdown(
+      '<ul><li>Outer<ul><li>Inner<pre>one\n\ntwo</pre></li></ul></li></ul>'
+    );
+    assert.ok(markdown.includes('one\n    \n    two'), markdown);
+  });
+});
@@ -0,0 +1,118 @@
+import TurndownService from 'turndown';
+
+let turndownService: TurndownService | null = null;
+
+function longestRun(text: string, char: string): number {
+  const runs = text.match(new RegExp(`\\${char}+`, 'g')) || [];
+  return runs.reduce((longest, run) => Math.max(longest, run.length), 0);
+}
+
+function childElements(node: HTMLElement, names: string[]): HTMLElement[] {
+  return Array.from(node.childNodes).filter(
+    (child): child is HTMLElement => names.includes(child.nodeName)
+  );
+}
+
+// Drop blank lines between an item's paragraphs, keeping those inside fenced
+// code and around indented code, where they are part of the code
+function collapseBlankLines(content: string): string {
+  const lines = content.split('\n');
+  const indentedCode = (line?: string) => line !== undefined && /^( {4}|\t)/.test(line) && !!line.trim();
+  let fence: string | null = null;
+
+  return lines.filter((line, index) => {
+    const marker = line.match(/^\s*(`{3,}|~{3,})(.*)$/);
+    if (fence) {
+      if (marker && marker[1][0] === fence[0] && marker[1].length >= fence.length && !marker[2].trim()) fence = null;
+      return true;
+    }
+    if (marker) {
+      fence = marker[1];
+      return true;
+    }
+    return !!line.trim() || indentedCode(lines[index - 1]) || indentedCode(lines[index + 1]);
+  }).join('\n');
+}
+
+// Rows of a table, including those inside thead/tbody/tfoot
+function tableRows(table: HTMLElement): HTMLElement[] {
+  return childElements(table, ['TR', 'THEAD', 'TBODY', 'TFOOT'])
+    .flatMap(child => child.nodeName === 'TR' ? [child] : childElements(child, ['TR']));
+}
+
+function getTurndownService(): TurndownService {
+  if (!turndownService) {
+    const service = new TurndownService({
+      headingStyle: 'atx',
+      codeBlockStyle: 'fenced',
+      bulletListMarker: '-',
+      emDelimiter: '*'
+    });
+
+    // Any <pre>, with or without an inner <code>, becomes a fence long enough not to clash with its content
+    service.addRule('preformatted', {
+      filter: 'pre',
+      replacement: (_content, node) => {
+        const element = node as HTMLElement;
+        const code = element.textContent?.replace(/\n$/, '') || '';
+        const className = `${element.getAttribute('class') || ''} ${element.querySelector('code')?.getAttribute('class') || ''}`;
+        const language = className.match(/(?:^|\s)lang(?:uage)?-([\w+#-]+)/)?.[1] || '';
+        const fence = '`'.repeat(Math.max(3, longestRun(code, '`') + 1));
+        return `\n\n${fence}${language}\n${code}\n${fence}\n\n`;
+      }
+    });
+
+    // Every table becomes a GFM table; the first row is the header even when it uses <td>
+    service.addRule('table', {
+      filter: 'table',
+      replacement: (_content, node) => {
+        const rows = tableRows(node as HTMLElement).map(row =>
+          childElements(row, ['TD', 'TH']).map(cell =>
+            service.turndown(cell.innerHTML).replace(/\s*\n+\s*/g, ' ').replace(/\|/g, '\\|').trim()
+          )
+        ).filter(cells => cells.length > 0);
+        if (rows.length === 0) return '';
+
+        const width = Math.max(...rows.map(cells => cells.length));
+        const line = (cells: string[]) =>
+          `| ${Array.from({ length: width }, (_, index) => cells[index] || '').join(' | ')} |`;
+        return `\n\n${[line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n')}\n\n`;
+      }
+    });
+
+    // Tight lists with a single-space marker; paragraphs inside items (as Word and ODT produce) don't loosen them,
+    // while code blocks nested in items keep their blank lines
+    service.addRule('listItem', {
+      filter: 'li',
+      replacement: (content, node) => {
+        const parent = node.parentNode as HTMLElement;
+        const marker = parent.nodeName === 'OL'
+          ? `${(Number(parent.getAttribute('start')) || 1) + childElements(parent, ['LI']).indexOf(node as HTMLElement)}.`
+          : '-';
+        const body = collapseBlankLines(content.trim()).replace(/\n/g, `\n${' '.repeat(marker.length + 1)}`);
+        return `${marker} ${body}${node.nextSibling ? '\n' : ''}`;
+      }
+    });
+
+    service.addRule('strikethrough', {
+      filter: ['del', 's'],
+      replacement: content => `~~${content}~~`
+    });
+
+    service.remove(['script', 'style', 'noscript']);
+    turndownService = service;
+  }
+  return turndownService;
+}
+
+/**
+ * Convert an HTML fragment to markdown the chunker understands: ATX headings,
+ * fenced code blocks (keeping `language-*` classes), `-` bullets and GFM
+ * tables with the first row as header.
+ */
+export function htmlToMarkdown(html: string): string {
+  return getTurndownService()
+    .turndown(html)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
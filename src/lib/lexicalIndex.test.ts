@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { DiskLexicalIndexStorage, LexicalIndex, reciprocalRankFusion, tokenize } from './lexicalIndex';
+import { setUpTestEnvironment, type TestEnvironment } from './testEnvironment';
+
+describe('tokenize', () => {
+  it('keeps dotted identifiers whole and splits them into words', () => {
+    assert.deepEqual(tokenize('Call step.waitForEvent'), ['call', 'step.waitforevent', 'step', 'waitforevent', 'wait', 'event']);
+  });
+});
+
+describe('LexicalIndex', () => {
+  let environment: TestEnvironment;
+  let directory: string;
+
+  before(async () => {
+    environment = await setUpTestEnvironment('lexical-index-test');
+    directory = path.join(environment.dataDirectory, 'lexical-index');
+  });
+
+  after(() => environment.restore());
+
+  it('ranks documents by BM25 and forgets deleted ones', async () => {
+    const index = new LexicalIndex(new DiskLexicalIndexStorage(directory));
+    await index.upsert('ranking', [
+      { id: 'a', text: 'Use step.sleep to pause a function' },
+      { id: 'b', text: 'Use step.waitForEvent to wait for an event, then step.waitForEvent again' },
+      { id: 'c', text: 'Billing and invoices' }
+    ]);
+
+    assert.deepEqual((await index.search('ranking', 'waitForEvent', 5)).map(match => match.id), ['b']);
+    assert.deepEqual((await index.search('ranking', 'step', 5)).map(match => match.id).sort(), ['a', 'b']);
+
+    await index.delete('ranking', ['b']);
+    assert.deepEqual(await index.search('ranking', 'waitForEvent', 5), []);
+  });
+
+  it('picks up documents written by another process', async () => {
+    const reader = new LexicalIndex(new DiskLexicalIndexStorage(directory));
+    const writer = new LexicalIndex(new DiskLexicalIndexStorage(directory));
+
+    await writer.upsert('shared', [{ id: 'first', text: 'Concurrency keys limit running functions' }]);
+    assert.equal((await reader.search('shared', 'concurrency', 5)).length, 1);
+
+    await writer.upsert('shared', [{ id: 'second', text: 'Concurrency limits per tenant' }]);
+    assert.deepEqual((await reader.search('shared', 'concurrency', 5)).map(match => match.id).sort(), ['first', 'second']);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('sums weight / (k + rank) over the rankings', () => {
+    const scores = reciprocalRankFusion([
+      { ids: ['a', 'b'], weight: 1 },
+      { ids: ['b'], weight: 2 }
+    ], 60);
+
+    assert.equal(scores.get('a'), 1 / 61);
+    assert.equal(scores.get('b'), 1 / 62 + 2 / 61);
+  });
+});
@@ -0,0 +1,272 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import Redis from 'ioredis';
+import { getLexicalIndexConfig } from './config';
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'my', 'no', 'not', 'of', 'on', 'or', 'so',
+  'that', 'the', 'their', 'then', 'there', 'this', 'to', 'was', 'we', 'what', 'when', 'which',
+  'why', 'will', 'with', 'you', 'your'
+]);
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Tokenize text for keyword search. Dotted identifiers such as
+ * `step.waitForEvent` are kept whole as well as split into their parts,
+ * and camelCase/snake_case names also yield their individual words.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const matches = text.match(/[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*|\d+/g) || [];
+
+  for (const match of matches) {
+    const parts = match.split('.');
+    if (parts.length > 1) tokens.push(match.toLowerCase());
+
+    for (const part of parts) {
+      const lower = part.toLowerCase();
+      if (lower.length > 1 && !STOPWORDS.has(lower)) tokens.push(lower);
+
+      const words = part.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[\s_$]+/);
+      if (words.length > 1) {
+        words
+          .map(word => word.toLowerCase())
+          .filter(word => word.length > 1 && !STOPWORDS.has(word))
+          .forEach(word => tokens.push(word));
+      }
+    }
+  }
+
+  return tokens;
+}
+
+export interface LexicalDocument {
+  length: number;
+  terms: Record<string, number>;
+}
+
+interface LexicalNamespace {
+  docs: Record<string, LexicalDocument>;
+  // Derived on load, not persisted
+  df?: Map<string, number>;
+  totalLength?: number;
+}
+
+export interface LexicalMatch {
+  id: string;
+  score: number;
+}
+
+/**
+ * Where the index lives. Writes touch only the given documents; `version`
+ * changes whenever any process writes a namespace, so cached copies are
+ * reloaded instead of drifting from the stored index.
+ */
+export interface LexicalIndexStorage {
+  load(namespace: string): Promise<Record<string, LexicalDocument>>;
+  write(namespace: string, upserts: Record<string, LexicalDocument>, deletes: string[]): Promise<void>;
+  version(namespace: string): Promise<string>;
+}
+
+// One JSON file per namespace, for the local vector store and development
+export class DiskLexicalIndexStorage implements LexicalIndexStorage {
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private directory: string) {}
+
+  async load(namespace: string): Promise<Record<string, LexicalDocument>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(namespace), 'utf-8')).docs || {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return {};
+    }
+  }
+
+  // Serialize writes per namespace and swap files atomically
+  async write(namespace: string, upserts: Record<string, LexicalDocument>, deletes: string[]): Promise<void> {
+    const previous = this.writes.get(namespace) || Promise.resolve();
+    const next = previous.then(async () => {
+      const docs = { ...await this.load(namespace), ...upserts };
+      deletes.forEach(id => delete docs[id]);
+
+      const file = this.filePath(namespace);
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(`${file}.tmp`, JSON.stringify({ docs }));
+      await fs.rename(`${file}.tmp`, file);
+    });
+    this.writes.set(namespace, next.catch(() => undefined));
+    await next;
+  }
+
+  async version(namespace: string): Promise<string> {
+    try {
+      const stats = await fs.stat(this.filePath(namespace));
+      return `${stats.mtimeMs}:${stats.size}`;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return 'missing';
+    }
+  }
+
+  private filePath(namespace: string): string {
+    return path.join(this.directory, `${namespace.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+}
+
+// A hash of documents per namespace, shared by every server and worker using the same Redis
+export class RedisLexicalIndexStorage implements LexicalIndexStorage {
+  private redis: Redis;
+
+  constructor(redisUrl: string) {
+    this.redis = new Redis(redisUrl, { lazyConnect: true, maxRetriesPerRequest: 1 });
+  }
+
+  async load(namespace: string): Promise<Record<string, LexicalDocument>> {
+    const entries = await this.redis.hgetall(`lexical:${namespace}:docs`);
+    return Object.fromEntries(Object.entries(entries).map(([id, value]) => [id, JSON.parse(value) as LexicalDocument]));
+  }
+
+  async write(namespace: string, upserts: Record<string, LexicalDocument>, deletes: string[]): Promise<void> {
+    const transaction = this.redis.multi();
+    for (let i = 0; i < deletes.length; i += 1000) {
+      transaction.hdel(`lexical:${namespace}:docs`, ...deletes.slice(i, i + 1000));
+    }
+    const entries = Object.entries(upserts);
+    for (let i = 0; i < entries.length; i += 1000) {
+      transaction.hset(`lexical:${namespace}:docs`, Object.fromEntries(
+        entries.slice(i, i + 1000).map(([id, document]) => [id, JSON.stringify(document)])
+      ));
+    }
+    transaction.incr(`lexical:${namespace}:version`);
+    await transaction.exec();
+  }
+
+  async version(namespace: string): Promise<string> {
+    return (await this.redis.get(`lexical:${namespace}:version`)) || '0';
+  }
+}
+
+/**
+ * BM25 keyword index keyed by the same ids as the vector store. Statistics
+ * are computed from an in-memory copy of each namespace, reloaded from
+ * storage whenever its version changes.
+ */
+export class LexicalIndex {
+  private namespaces = new Map<string, { version: string; data: LexicalNamespace }>();
+
+  constructor(private storage: LexicalIndexStorage) {}
+
+  async upsert(namespace: string, documents: Array<{ id: string; text: string }>): Promise<void> {
+    if (documents.length === 0) return;
+
+    const upserts: Record<string, LexicalDocument> = {};
+    for (const document of documents) {
+      const tokens = tokenize(document.text);
+      const terms: Record<string, number> = {};
+      tokens.forEach(token => {
+        terms[token] = (terms[token] || 0) + 1;
+      });
+      upserts[document.id] = { length: tokens.length, terms };
+    }
+
+    await this.storage.write(namespace, upserts, []);
+    this.namespaces.delete(namespace);
+  }
+
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.storage.write(namespace, {}, ids);
+    this.namespaces.delete(namespace);
+  }
+
+  async search(namespace: string, query: string, topK: number): Promise<LexicalMatch[]> {
+    const data = await this.load(namespace);
+    const documentCount = Object.keys(data.docs).length;
+    if (documentCount === 0) return [];
+
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const averageLength = (data.totalLength || 0) / documentCount || 1;
+
+    const idf = new Map(queryTerms.map(term => {
+      const df = data.df?.get(term) || 0;
+      return [term, Math.log(1 + (documentCount - df + 0.5) / (df + 0.5))];
+    }));
+
+    const matches: LexicalMatch[] = [];
+    for (const [id, document] of Object.entries(data.docs)) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = document.terms[term];
+        if (!frequency) continue;
+        score += idf.get(term)! * (frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + B * document.length / averageLength));
+      }
+      if (score > 0) matches.push({ id, score });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  private computeStatistics(data: LexicalNamespace): void {
+    const df = new Map<string, number>();
+    let totalLength = 0;
+
+    Object.values(data.docs).forEach(document => {
+      totalLength += document.length;
+      Object.keys(document.terms).forEach(term => df.set(term, (df.get(term) || 0) + 1));
+    });
+
+    data.df = df;
+    data.totalLength = totalLength;
+  }
+
+  private async load(namespace: string): Promise<LexicalNamespace> {
+    const version = await this.storage.version(namespace);
+    const cached = this.namespaces.get(namespace);
+    if (cached?.version === version) return cached.data;
+
+    const data: LexicalNamespace = { docs: await this.storage.load(namespace) };
+    this.computeStatistics(data);
+    this.namespaces.set(namespace, { version, data });
+    return data;
+  }
+}
+
+/**
+ * Weighted reciprocal rank fusion: each ranked list contributes
+ * weight / (k + rank) for every id it contains (rank starts at 1).
+ */
+export function reciprocalRankFusion(
+  rankings: Array<{ ids: string[]; weight: number }>,
+  k: number
+): Map<string, number> {
+  const scores = new Map<string, number>();
+
+  rankings.forEach(({ ids, weight }) => {
+    ids.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + weight / (k + index + 1));
+    });
+  });
+
+  return scores;
+}
+
+// Lazy initialization of the index; null when LEXICAL_INDEX is 'none'
+let lexicalIndex: LexicalIndex | null | undefined;
+
+export function getLexicalIndex(): LexicalIndex | null {
+  if (lexicalIndex === undefined) {
+    const config = getLexicalIndexConfig();
+    lexicalIndex = config.provider === 'redis'
+      ? new LexicalIndex(new RedisLexicalIndexStorage(config.redisUrl))
+      : config.provider === 'disk'
+        ? new LexicalIndex(new DiskLexicalIndexStorage(config.path))
+        : null;
+  }
+  return lexicalIndex;
+}
@@ -0,0 +1,197 @@
+import type { DocumentPage } from '@/types';
+
+export interface LlmsPage {
+  page?: DocumentPage;              // Missing for text before the first page marker
+  content: string;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const SOURCE_LINE = /^(?:source|url):\s*(\S+)\s*$/i;
+const FRONT_MATTER_FIELD = /^([\w-]+):\s*(.*)$/;
+
+// Absolute, fragment-free page URL without the `.md` suffix llms files often link to
+function canonicalPageUrl(url: string, source: string): string | undefined {
+  try {
+    const resolved = new URL(url, /^https?:\/\//.test(source) ? source : undefined);
+    if (!/^https?:$/.test(resolved.protocol)) return undefined;
+    resolved.hash = '';
+    resolved.pathname = resolved.pathname.replace(/(\/index)?\.mdx?$/, '') || '/';
+    return resolved.href;
+  } catch {
+    return undefined;
+  }
+}
+
+function titleFromUrl(url: string): string {
+  const slug = new URL(url).pathname.split('/').filter(Boolean).pop() || 'Home';
+  return slug.replace(/[-_]+/g, ' ').replace(/^\w/, c => c.toUpperCase());
+}
+
+interface PageMarker {
+  start: number;                    // First line of the marker
+  end: number;                      // First content line after it
+  url: string;
+  title?: string;
+}
+
+// `# Title` followed by a `Source: <url>` (or `URL:`) line
+function matchHeadingMarker(lines: string[], index: number): PageMarker | undefined {
+  const heading = lines[index].match(/^#\s+(.+?)\s*$/);
+  if (!heading) return undefined;
+
+  for (let next = index + 1; next < Math.min(index + 3, lines.length); next++) {
+    const source = lines[next].match(SOURCE_LINE);
+    if (source) return { start: index, end: next + 1, url: source[1], title: heading[1] };
+    if (lines[next].trim()) return undefined;
+  }
+  return undefined;
+}
+
+// `---` front matter with a `url`/`source` field, optionally followed by the `# Title`
+function matchFrontMatterMarker(lines: string[], index: number): PageMarker | undefined {
+  if (lines[index].trim() !== '---') return undefined;
+
+  const fields: Record<string, string> = {};
+  for (let next = index + 1; next < Math.min(index + 12, lines.length); next++) {
+    if (lines[next].trim() === '---') {
+      const url = fields.url || fields.source || fields.canonical;
+      if (!url) return undefined;
+
+      let end = next + 1;
+      let title = fields.title;
+      while (end < lines.length && !lines[end].trim()) end++;
+      const heading = lines[end]?.match(/^#\s+(.+?)\s*$/);
+      if (heading) {
+        title = title || heading[1];
+        end++;
+      }
+      return { start: index, end, url, title };
+    }
+
+    const field = lines[next].match(FRONT_MATTER_FIELD);
+    if (!field) return undefined;
+    fields[field[1].toLowerCase()] = field[2].trim().replace(/^(['"])(.*)\1$/, '$2');
+  }
+  return undefined;
+}
+
+/**
+ * Split an llms-full.txt style file into its pages. A page starts with either
+ * a `# Title` line followed by `Source: <url>`, or a `---` front matter block
+ * with a `url`/`source` field. URLs are resolved against `source` and made
+ * canonical. Text with no page markers comes back as a single page-less entry.
+ */
+export function splitLlmsFullPages(text: string, source: string): LlmsPage[] {
+  const lines = text.split('\n');
+  const pages: LlmsPage[] = [];
+  let current: LlmsPage = { content: '' };
+  let from = 0;
+  let fence: string | null = null;
+
+  const close = (to: number) => {
+    current.content = lines.slice(from, to).join('\n').trim();
+    if (current.content || current.page) pages.push(current);
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const open = lines[index].match(FENCE);
+    if (fence) {
+      if (open && open[1][0] === fence[0] && open[1].length >= fence.length && !lines[index].trim().slice(open[1].length).trim()) fence = null;
+      continue;
+    }
+    if (open) {
+      fence = open[1];
+      continue;
+    }
+
+    const marker = matchHeadingMarker(lines, index) || matchFrontMatterMarker(lines, index);
+    const url = marker && canonicalPageUrl(marker.url, source);
+    if (!marker || !url) continue;
+
+    close(index);
+    current = { page: { url, title: marker.title || titleFromUrl(url) }, content: '' };
+    from = marker.end;
+    index = marker.end - 1;
+  }
+
+  close(lines.length);
+  return pages;
+}
+
+export interface LlmsIndexLink {
+  url: string;                      // Absolute URL as linked, the document to fetch
+  page: DocumentPage;               // Canonical page URL and the link text, for citations
+  description?: string;
+  section?: string;                 // The `##` section listing the link
+  optional: boolean;                // Listed under `## Optional`, which readers may skip
+}
+
+export interface LlmsIndex {
+  title?: string;
+  summary?: string;                 // The `>` blockquote under the title
+  links: LlmsIndexLink[];
+}
+
+const INDEX_LINK = /^\s*[-*+]\s+\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)\s*(?::\s*(.*))?$/;
+
+// An llms.txt index (as opposed to llms-full.txt or any other text), judged by its file name
+export function isLlmsTxtIndexUrl(url: string): boolean {
+  try {
+    return /(^|\/)llms\.txt$/i.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse an llms.txt index: a `# Title`, an optional `> summary`, then `##`
+ * sections of `- [Title](url): description` links. Links are resolved against
+ * `source` and de-duplicated; text that isn't part of a link list is ignored.
+ */
+export function parseLlmsTxt(text: string, source: string): LlmsIndex {
+  const index: LlmsIndex = { links: [] };
+  const seen = new Set<string>();
+  let section: string | undefined;
+
+  for (const line of text.split('\n')) {
+    const title = line.match(/^#\s+(.+?)\s*$/);
+    if (title && !index.title && !section) {
+      index.title = title[1];
+      continue;
+    }
+
+    const quote = line.match(/^>\s?(.*)$/);
+    if (quote && !section) {
+      index.summary = index.summary ? `${index.summary} ${quote[1].trim()}` : quote[1].trim();
+      continue;
+    }
+
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      section = heading[1];
+      continue;
+    }
+
+    const link = line.match(INDEX_LINK);
+    if (!link) continue;
+    let url: string;
+    try {
+      url = new URL(link[2], /^https?:\/\//.test(source) ? source : undefined).href;
+    } catch {
+      continue;
+    }
+    const pageUrl = canonicalPageUrl(url, source);
+    if (!pageUrl || seen.has(url)) continue;
+    seen.add(url);
+
+    index.links.push({
+      url,
+      page: { url: pageUrl, title: link[1].trim() },
+      description: link[3]?.trim() || undefined,
+      section,
+      optional: section?.toLowerCase() === 'optional'
+    });
+  }
+
+  return index;
+}
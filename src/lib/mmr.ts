@@ -0,0 +1,107 @@
+import { TECH_DOMAINS } from './config';
+import { generateEmbedding } from './embeddings';
+import { cosineSimilarity, getVectorStore } from './vectorStore';
+import type { VectorSearchResult } from '@/types';
+
+// Validate an untrusted lambda (API body, Redis event); throws a readable error
+export function parseMMRLambda(input: unknown): number | undefined {
+  if (input === undefined || input === null) return undefined;
+  if (typeof input !== 'number' || !(input >= 0 && input <= 1)) {
+    throw new Error('Invalid mmrLambda - must be a number between 0 and 1');
+  }
+  return input;
+}
+
+/**
+ * Greedy maximal marginal relevance: repeatedly pick the candidate maximizing
+ * lambda * relevance - (1 - lambda) * (max similarity to anything picked).
+ * Returns candidate indexes in pick order. Candidates without a vector are
+ * treated as unlike every other candidate.
+ */
+export function maximalMarginalRelevance(
+  candidates: Array<{ relevance: number; vector?: number[] }>,
+  lambda: number,
+  k: number
+): number[] {
+  const selected: number[] = [];
+  const remaining = new Set(candidates.map((_, index) => index));
+  const maxSimilarity = candidates.map(() => 0);
+
+  while (selected.length < k && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    remaining.forEach(index => {
+      const score = lambda * candidates[index].relevance - (1 - lambda) * maxSimilarity[index];
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+
+    selected.push(best);
+    remaining.delete(best);
+
+    const picked = candidates[best].vector;
+    if (picked) {
+      remaining.forEach(index => {
+        const vector = candidates[index].vector;
+        if (vector) maxSimilarity[index] = Math.max(maxSimilarity[index], cosineSimilarity(picked, vector));
+      });
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Pick `topK` results that cover different content, using the embeddings
+ * stored with each chunk. Relevance is the rerank score when results were
+ * reranked, otherwise similarity to the query. If the embeddings cannot be
+ * loaded, the first `topK` results are returned unchanged.
+ */
+export async function diversifyResults(
+  query: string,
+  results: VectorSearchResult[],
+  lambda: number,
+  topK: number
+): Promise<VectorSearchResult[]> {
+  if (results.length <= 1) return results.slice(0, topK);
+
+  try {
+    // Load stored vectors, one fetch per namespace
+    const store = getVectorStore();
+    const vectors = new Map<string, number[]>();
+    const idsByNamespace = new Map<string, string[]>();
+    results.forEach(result => {
+      const namespace = TECH_DOMAINS[String(result.metadata?.domain)]?.namespace;
+      if (!namespace || !result.id) return;
+      idsByNamespace.set(namespace, [...(idsByNamespace.get(namespace) || []), result.id]);
+    });
+    await Promise.all(Array.from(idsByNamespace, async ([namespace, ids]) => {
+      const records = await store.fetch(namespace, ids);
+      records.forEach(record => vectors.set(`${namespace}:${record.id}`, record.values));
+    }));
+
+    const queryVector = await generateEmbedding(query);
+    const candidates = results.map(result => {
+      const namespace = TECH_DOMAINS[String(result.metadata?.domain)]?.namespace;
+      const vector = vectors.get(`${namespace}:${result.id}`);
+      const rerankScore = result.metadata?.rerankScore;
+      return {
+        vector,
+        relevance: typeof rerankScore === 'number'
+          ? rerankScore
+          : vector ? cosineSimilarity(queryVector, vector) : result.score
+      };
+    });
+
+    return maximalMarginalRelevance(candidates, lambda, topK).map((index, rank) => ({
+      ...results[index],
+      metadata: { ...results[index].metadata, mmrRank: rank + 1, relevanceRank: index + 1 }
+    }));
+
+  } catch (error) {
+    console.error('MMR diversification failed, keeping result order:', error);
+    return results.slice(0, topK);
+  }
+}
@@ -0,0 +1,169 @@
+import { createHash } from 'crypto';
+import OpenAI from 'openai';
+import { getModelConfig } from './config';
+import { tokenize } from './lexicalIndex';
+import type { ExpertiseDomain, ModelProviderName, ModelTask } from '@/types';
+
+export interface CompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model: string;
+  messages: CompletionMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a JSON object response
+}
+
+/**
+ * Chat completion, streaming and embeddings behind one interface, so the
+ * pipeline does not depend on a particular API.
+ */
+export interface ModelProvider {
+  readonly name: ModelProviderName;
+  complete(request: CompletionRequest): Promise<string>;
+  // Resolves once the request is accepted; the iterable yields text deltas
+  stream(request: CompletionRequest): Promise<AsyncIterable<string>>;
+  embed(model: string, inputs: string[]): Promise<number[][]>;
+}
+
+/**
+ * OpenAI, or any server speaking the OpenAI API (vLLM, Ollama, LM Studio)
+ * when a base URL is given.
+ */
+export class OpenAIProvider implements ModelProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly name: 'openai' | 'openai-compatible',
+    options: { apiKey?: string; baseURL?: string }
+  ) {
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create(this.toParams(request));
+    return response.choices[0]?.message?.content || '';
+  }
+
+  async stream(request: CompletionRequest): Promise<AsyncIterable<string>> {
+    const stream = await this.client.chat.completions.create({ ...this.toParams(request), stream: true });
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) yield content;
+      }
+    })();
+  }
+
+  async embed(model: string, inputs: string[]): Promise<number[][]> {
+    // Rate limits are retried by the caller with its own backoff
+    const response = await this.client.embeddings.create({ model, input: inputs }, { maxRetries: 0 });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  private toParams(request: CompletionRequest) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {})
+    };
+  }
+}
+
+export interface ScriptedCompletion {
+  match?: string | RegExp; // Tested against the last user message; omitted matches anything
+  content: string;
+  once?: boolean;          // Remove after the first use
+}
+
+/**
+ * Deterministic provider for tests and offline runs. Embeddings hash tokens
+ * into a fixed-size vector (texts sharing words are similar), and completions
+ * come from a script of canned responses.
+ */
+export class FakeProvider implements ModelProvider {
+  readonly name = 'fake' as const;
+  readonly requests: CompletionRequest[] = [];
+
+  constructor(private script: ScriptedCompletion[] = [], private dimensions = 1536) {}
+
+  respond(...responses: ScriptedCompletion[]): void {
+    this.script.push(...responses);
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.requests.push(request);
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+
+    const index = this.script.findIndex(({ match }) =>
+      match === undefined ||
+      (typeof match === 'string' ? lastUserMessage.includes(match) : match.test(lastUserMessage))
+    );
+    if (index === -1) {
+      return request.json ? '{}' : `Fake response to: ${lastUserMessage.substring(0, 100)}`;
+    }
+
+    const scripted = this.script[index];
+    if (scripted.once) this.script.splice(index, 1);
+    return scripted.content;
+  }
+
+  async stream(request: CompletionRequest): Promise<AsyncIterable<string>> {
+    const content = await this.complete(request);
+    return (async function* () {
+      for (const piece of content.match(/\S+\s*|\s+/g) || []) yield piece;
+    })();
+  }
+
+  async embed(_model: string, inputs: string[]): Promise<number[][]> {
+    return inputs.map(input => this.hashEmbedding(input));
+  }
+
+  // Signed feature hashing of the text's tokens, L2-normalized
+  private hashEmbedding(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const token of tokenize(text)) {
+      const hash = createHash('md5').update(token).digest();
+      const bucket = hash.readUInt32LE(0) % this.dimensions;
+      vector[bucket] += hash[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
+
+// Lazy initialization of the provider
+let modelProvider: ModelProvider | null = null;
+
+export function getModelProvider(): ModelProvider {
+  if (!modelProvider) {
+    const config = getModelConfig();
+    modelProvider = config.provider === 'fake'
+      ? new FakeProvider()
+      : new OpenAIProvider(config.provider, { apiKey: config.apiKey, baseURL: config.baseURL });
+  }
+  return modelProvider;
+}
+
+// Swap the provider, e.g. a scripted FakeProvider in tests
+export function setModelProvider(provider: ModelProvider): void {
+  modelProvider = provider;
+}
+
+// The domain's model for a task, falling back to the global default
+export function getModelForTask(task: ModelTask, domainConfig?: ExpertiseDomain): string {
+  return domainConfig?.models?.[task] || getModelConfig().models[task];
+}
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { storeDocuments } from './ai';
+import { chunkDocument, getChunkingOptions } from './chunking';
+import { expandNeighbors } from './neighborExpansion';
+import { setUpTestEnvironment, type TestEnvironment } from './testEnvironment';
+import { getVectorStore } from './vectorStore';
+import type { VectorSearchResult } from '@/types';
+
+const DOMAIN = 'neighbors-test';
+
+const paragraphs = (topic: string) => [1, 2, 3]
+  .map(n => `${topic} example step ${n}: configure the ${topic.toLowerCase()} option and check the result before moving on.`)
+  .join('\n\n');
+
+// Two "## Example" sections under different parents
+const DOCUMENT = `# Retries
+
+${paragraphs('Retries')}
+
+## Example
+
+${paragraphs('Backoff')}
+
+# Concurrency
+
+${paragraphs('Concurrency')}
+
+## Example
+
+${paragraphs('Throttle')}`;
+
+describe('expandNeighbors', () => {
+  let environment: TestEnvironment;
+
+  before(async () => {
+    environment = await setUpTestEnvironment('neighbors-test', {
+      env: { LEXICAL_INDEX: 'none' },
+      domains: { [DOMAIN]: { name: 'Neighbors Test', chunking: { maxChunkSize: 150, minChunkSize: 10 } } }
+    });
+    const chunks = await chunkDocument(DOCUMENT, { source: 'guide.md', domain: DOMAIN, type: 'custom' }, getChunkingOptions(DOMAIN));
+    await storeDocuments(chunks, DOMAIN);
+  });
+
+  after(() => environment.restore());
+
+  it('only joins chunks of the same section when headings repeat', async () => {
+    const [match] = (await getVectorStore().query(DOMAIN, {
+      vector: new Array(64).fill(1),
+      topK: 1,
+      filter: { section: 'Example', chunkIndex: 0, headings: 'Retries' }
+    }));
+    const result: VectorSearchResult = {
+      id: match.id,
+      content: String(match.metadata.content),
+      source: 'guide.md',
+      score: 0.9,
+      metadata: match.metadata
+    };
+
+    const [expanded] = await expandNeighbors('backoff example', [result], { mode: 'parent', window: 1, maxChunks: 8 });
+
+    assert.ok(Array.isArray(expanded.metadata?.expandedChunkIndexes) && expanded.metadata.expandedChunkIndexes.length > 1);
+    assert.match(expanded.content, /Backoff example step 3/);
+    assert.doesNotMatch(expanded.content, /Throttle/);
+  });
+});
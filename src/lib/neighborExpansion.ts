@@ -0,0 +1,120 @@
+import { TECH_DOMAINS } from './config';
+import { generateEmbedding } from './embeddings';
+import { getVectorStore, type MetadataFilter, type VectorMatch } from './vectorStore';
+import type { VectorSearchResult } from '@/types';
+
+interface ExpansionGroup {
+  rank: number;                     // Position of the best match in the result list
+  best: VectorSearchResult;
+  namespace: string;
+  matchedIndexes: number[];
+}
+
+// Fields that identify a chunk's section. Names repeat within a document (two
+// "Example" headings under different parents), so the section's anchor, unique
+// per document, is part of it.
+const SECTION_FIELDS = ['source', 'pageUrl', 'section', 'subsection', 'sectionAnchor'];
+
+// Chunks of one source (and page) section (a missing field only matches itself)
+function sectionFilter(metadata: Record<string, unknown>): MetadataFilter {
+  const filter: MetadataFilter = {};
+  SECTION_FIELDS.forEach(field => {
+    filter[field] = metadata[field] !== undefined ? String(metadata[field]) : { $exists: false };
+  });
+  return filter;
+}
+
+// Join consecutive chunks, dropping the `# title` line every chunk of a subsection repeats
+function mergeChunkContents(matches: VectorMatch[]): string {
+  return matches
+    .map((match, index) => {
+      const content = String(match.metadata.content || '');
+      const heading = content.match(/^# .*\n\n/);
+      return index > 0 && heading && String(matches[0].metadata.content || '').startsWith(heading[0])
+        ? content.substring(heading[0].length)
+        : content;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Small-to-big retrieval: replace matched chunks with the run of chunks around
+ * them (`siblings`, `window` chunkIndex steps on each side) or their whole
+ * subsection (`parent`). Matches from the same subsection merge into one
+ * result at the rank of the best of them. Results without a chunkIndex, and
+ * any lookup that fails, are passed through unchanged.
+ */
+export async function expandNeighbors(
+  query: string,
+  results: VectorSearchResult[],
+  settings: { mode: 'siblings' | 'parent'; window: number; maxChunks: number }
+): Promise<VectorSearchResult[]> {
+  const groups = new Map<string, ExpansionGroup>();
+  const passthrough: Array<{ rank: number; result: VectorSearchResult }> = [];
+
+  results.forEach((result, rank) => {
+    const metadata = result.metadata || {};
+    const namespace = TECH_DOMAINS[String(metadata.domain)]?.namespace;
+    if (typeof metadata.chunkIndex !== 'number' || !namespace) {
+      passthrough.push({ rank, result });
+      return;
+    }
+
+    const key = JSON.stringify([namespace, ...SECTION_FIELDS.map(field => metadata[field])]);
+    const group = groups.get(key);
+    if (group) {
+      group.matchedIndexes.push(metadata.chunkIndex);
+    } else {
+      groups.set(key, { rank, best: result, namespace, matchedIndexes: [metadata.chunkIndex] });
+    }
+  });
+
+  if (groups.size === 0) return results;
+
+  const store = getVectorStore();
+  // Any vector will do since the filter selects the chunks; the query's is cached
+  const vector = await generateEmbedding(query);
+
+  const expanded = await Promise.all(Array.from(groups.values()).map(async group => {
+    const filter = sectionFilter(group.best.metadata!);
+    if (settings.mode === 'siblings') {
+      filter.chunkIndex = {
+        $gte: Math.min(...group.matchedIndexes) - settings.window,
+        $lte: Math.max(...group.matchedIndexes) + settings.window
+      };
+    }
+
+    try {
+      const matches = await store.query(group.namespace, { vector, topK: settings.maxChunks, filter });
+      if (matches.length === 0) return { rank: group.rank, result: group.best };
+
+      // Past maxChunks the store keeps the chunks most similar to the query; read them in document order
+      const ordered = matches.sort((a, b) => Number(a.metadata.chunkIndex) - Number(b.metadata.chunkIndex));
+      const chunkIndexes = ordered.map(match => Number(match.metadata.chunkIndex));
+      const pageStarts = ordered.map(match => match.metadata.pageStart).filter(page => typeof page === 'number');
+      const pageEnds = ordered.map(match => match.metadata.pageEnd).filter(page => typeof page === 'number');
+
+      return {
+        rank: group.rank,
+        result: {
+          ...group.best,
+          content: mergeChunkContents(ordered),
+          metadata: {
+            ...group.best.metadata,
+            matchedChunkIndexes: group.matchedIndexes,
+            expandedChunkIndexes: chunkIndexes,
+            expansionMode: settings.mode,
+            ...(pageStarts.length > 0 && { pageStart: Math.min(...pageStarts), pageEnd: Math.max(...pageEnds) })
+          }
+        }
+      };
+    } catch (error) {
+      console.error(`Neighbor expansion failed for ${group.best.source}, keeping the matched chunk:`, error);
+      return { rank: group.rank, result: group.best };
+    }
+  }));
+
+  return [...expanded, ...passthrough]
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ result }) => result);
+}
@@ -0,0 +1,168 @@
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { describe, it } from 'node:test';
+import { extractDocxText, extractOdtText } from './officeDocuments';
+
+async function zip(files: Record<string, string>): Promise<Uint8Array> {
+  const archive = new JSZip();
+  Object.entries(files).forEach(([name, content]) => archive.file(name, content));
+  return archive.generateAsync({ type: 'uint8array' });
+}
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function docxParagraph(text: string, options: { style?: string; list?: number } = {}): string {
+  const properties = [
+    options.style && `<w:pStyle w:val="${options.style}"/>`,
+    options.list && `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${options.list}"/></w:numPr>`
+  ].filter(Boolean).join('');
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+function docxTable(rows: string[][]): string {
+  return `<w:tbl>${rows.map(cells =>
+    `<w:tr>${cells.map(cell => `<w:tc>${docxParagraph(cell)}</w:tc>`).join('')}</w:tr>`
+  ).join('')}</w:tbl>`;
+}
+
+// A minimal Word document: heading and code paragraph styles, a bullet and a numbered list
+async function docx(body: string): Promise<Uint8Array> {
+  const style = (id: string, name: string) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/></w:style>`;
+  const numbering = (id: number, format: string) =>
+    `<w:abstractNum w:abstractNumId="${id}"><w:lvl w:ilvl="0"><w:numFmt w:val="${format}"/></w:lvl></w:abstractNum>`;
+
+  return zip({
+    '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '</Types>',
+    '_rels/.rels': '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      '</Relationships>',
+    'word/_rels/document.xml.rels': '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>' +
+      '</Relationships>',
+    'word/styles.xml': `<?xml version="1.0" encoding="UTF-8"?><w:styles ${W}>` +
+      `${style('Heading1', 'heading 1')}${style('Heading2', 'heading 2')}${style('Code', 'Code')}</w:styles>`,
+    'word/numbering.xml': `<?xml version="1.0" encoding="UTF-8"?><w:numbering ${W}>` +
+      `${numbering(0, 'bullet')}${numbering(1, 'decimal')}` +
+      '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num><w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>' +
+      '</w:numbering>',
+    'word/document.xml': `<?xml version="1.0" encoding="UTF-8"?><w:document ${W}><w:body>${body}</w:body></w:document>`
+  });
+}
+
+const ODT_NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"'
+].join(' ');
+
+// A minimal OpenDocument text file; `styles` go into styles.xml, `automatic` into content.xml
+async function odt(body: string, { styles = '', automatic = '' } = {}): Promise<Uint8Array> {
+  return zip({
+    mimetype: 'application/vnd.oasis.opendocument.text',
+    'styles.xml': `<?xml version="1.0" encoding="UTF-8"?><office:document-styles ${ODT_NAMESPACES}>` +
+      `<office:styles>${styles}</office:styles></office:document-styles>`,
+    'content.xml': `<?xml version="1.0" encoding="UTF-8"?><office:document-content ${ODT_NAMESPACES}>` +
+      '<office:font-face-decls><style:font-face style:name="Mono" style:font-pitch="fixed"/></office:font-face-decls>' +
+      `<office:automatic-styles>${automatic}</office:automatic-styles>` +
+      `<office:body><office:text>${body}</office:text></office:body></office:document-content>`
+  });
+}
+
+describe('extractDocxText', () => {
+  it('converts headings, lists, tables and code-styled paragraphs', async () => {
+    const markdown = await extractDocxText(await docx([
+      docxParagraph('Setup', { style: 'Heading1' }),
+      docxParagraph('Install the SDK first.'),
+      docxParagraph('Requirements', { style: 'Heading2' }),
+      docxParagraph('Node 20', { list: 1 }),
+      docxParagraph('npm', { list: 1 }),
+      docxParagraph('Clone the repo', { list: 2 }),
+      docxParagraph('Run the installer', { list: 2 }),
+      docxTable([['Option', 'Default'], ['retries', '3']]),
+      docxParagraph('npm install sdk', { style: 'Code' }),
+      docxParagraph('npm run build', { style: 'Code' })
+    ].join('')), 'guide.docx');
+
+    assert.equal(markdown, [
+      '# Setup',
+      'Install the SDK first.',
+      '## Requirements',
+      '- Node 20\n- npm',
+      '1. Clone the repo\n2. Run the installer',
+      '| Option | Default |\n| --- | --- |\n| retries | 3 |',
+      '```\nnpm install sdk\nnpm run build\n```'
+    ].join('\n\n'));
+  });
+
+  it('rejects a document without text', async () => {
+    await assert.rejects(extractDocxText(await docx(''), 'empty.docx'), /empty\.docx contains no text/);
+  });
+
+  it('names the file when the archive is not a Word document', async () => {
+    await assert.rejects(
+      extractDocxText(await zip({ 'readme.txt': 'hello' }), 'broken.docx'),
+      /DOCX extraction failed for broken\.docx/
+    );
+  });
+});
+
+describe('extractOdtText', () => {
+  it('walks headings, lists, tables, spans and code paragraphs', async () => {
+    const markdown = await extractOdtText(await odt(
+      '<text:h text:outline-level="1">Setup</text:h>' +
+      '<text:p>Call <text:span text:style-name="T1">step.run</text:span> with a <text:span text:style-name="T2">unique</text:span> ' +
+        'id, see <text:a xlink:href="https://example.com/docs">the docs</text:a>.</text:p>' +
+      '<text:h text:outline-level="2">Steps</text:h>' +
+      '<text:list text:style-name="L1">' +
+        '<text:list-item><text:p>Install</text:p></text:list-item>' +
+        '<text:list-item><text:p>Deploy</text:p></text:list-item>' +
+      '</text:list>' +
+      '<text:list text:style-name="L2"><text:list-item><text:p>Bullet</text:p></text:list-item></text:list>' +
+      '<table:table><table:table-row><table:table-cell><text:p>Option</text:p></table:table-cell>' +
+        '<table:table-cell><text:p>Default</text:p></table:table-cell></table:table-row>' +
+        '<table:table-row><table:table-cell><text:p>retries</text:p></table:table-cell>' +
+        '<table:table-cell><text:p>3</text:p></table:table-cell></table:table-row></table:table>' +
+      '<text:p text:style-name="Preformatted_20_Text">if (ok) {</text:p>' +
+      '<text:p text:style-name="P1"><text:s text:c="2"/>run();</text:p>' +
+      '<text:p text:style-name="Preformatted_20_Text">}</text:p>',
+      {
+        styles: '<style:style style:name="Preformatted_20_Text" style:display-name="Preformatted Text" style:family="paragraph"/>',
+        automatic:
+          '<style:style style:name="P1" style:family="paragraph"><style:text-properties style:font-name="Mono"/></style:style>' +
+          '<style:style style:name="T1" style:family="text" style:parent-style-name="Source_20_Text"/>' +
+          '<style:style style:name="T2" style:family="text"><style:text-properties fo:font-weight="bold"/></style:style>' +
+          '<text:list-style style:name="L1"><text:list-level-style-number text:level="1"/></text:list-style>' +
+          '<text:list-style style:name="L2"><text:list-level-style-bullet text:level="1"/></text:list-style>'
+      }
+    ), 'guide.odt');
+
+    assert.equal(markdown, [
+      '# Setup',
+      'Call `step.run` with a **unique** id, see [the docs](https://example.com/docs).',
+      '## Steps',
+      '1. Install\n2. Deploy',
+      '- Bullet',
+      '| Option | Default |\n| --- | --- |\n| retries | 3 |',
+      '```\nif (ok) {\n  run();\n}\n```'
+    ].join('\n\n'));
+  });
+
+  it('reports a missing content.xml', async () => {
+    await assert.rejects(
+      extractOdtText(await zip({ mimetype: 'application/vnd.oasis.opendocument.text' }), 'broken.odt'),
+      /ODT extraction failed for broken\.odt: content\.xml is missing/
+    );
+  });
+});
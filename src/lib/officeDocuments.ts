@@ -0,0 +1,250 @@
+import mammoth from 'mammoth';
+import JSZip from 'jszip';
+import { DOMParser, type Element, type Node } from '@xmldom/xmldom';
+import { htmlToMarkdown } from './htmlToMarkdown';
+
+// Word styles commonly used for code, mapped to HTML mammoth doesn't produce by default
+const DOCX_STYLE_MAP = [
+  "p[style-name='Code'] => pre:separator('\\n')",
+  "p[style-name='Code Block'] => pre:separator('\\n')",
+  "p[style-name='Source Code'] => pre:separator('\\n')",
+  "p[style-name='HTML Preformatted'] => pre:separator('\\n')",
+  "p[style-name='Preformatted Text'] => pre:separator('\\n')",
+  "r[style-name='Code Char'] => code",
+  "r[style-name='HTML Code'] => code",
+  "r[style-name='Source Code Char'] => code",
+  "r[style-name='Verbatim Char'] => code"
+];
+
+// ODF style names that mark code, after decoding `_20_` to spaces
+const CODE_STYLE = /\b(code|source|preformatted|verbatim)\b/i;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function requireText(markdown: string, fileName: string): string {
+  if (!markdown.trim()) {
+    throw new Error(`${fileName} contains no text`);
+  }
+  return markdown;
+}
+
+/**
+ * Convert a Word document to markdown. Heading styles become `#` levels,
+ * numbered and bulleted lists become markdown lists, tables become GFM tables
+ * and paragraphs in code styles become fenced code blocks. Images are dropped.
+ */
+export async function extractDocxText(data: Uint8Array, fileName: string): Promise<string> {
+  let html: string;
+  try {
+    const result = await mammoth.convertToHtml(
+      { buffer: Buffer.from(data) },
+      { styleMap: DOCX_STYLE_MAP, convertImage: mammoth.images.imgElement(async () => ({ src: '' })) }
+    );
+    html = result.value.replace(/<img[^>]*>/g, '');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`DOCX extraction failed for ${fileName}: ${errorMessage}`);
+  }
+
+  return requireText(htmlToMarkdown(html), fileName);
+}
+
+interface OdtStyle {
+  parent?: string;
+  code: boolean;                    // Code style name or a fixed-pitch font
+  bold: boolean;
+  italic: boolean;
+  ordered?: boolean;                // List styles only: numbered first level
+}
+
+function elementChildren(node: Node): Element[] {
+  return Array.from(node.childNodes).filter((child): child is Element => child.nodeType === child.ELEMENT_NODE);
+}
+
+function descendants(node: Node, name: string): Element[] {
+  return elementChildren(node).flatMap(child => child.nodeName === name ? [child] : descendants(child, name));
+}
+
+// Paragraph, text and list styles declared in content.xml and styles.xml, keyed by style name
+function readOdtStyles(documents: Node[]): Map<string, OdtStyle> {
+  const fixedPitchFonts = new Set(
+    documents.flatMap(document => descendants(document, 'style:font-face'))
+      .filter(font => font.getAttribute('style:font-pitch') === 'fixed')
+      .map(font => font.getAttribute('style:name'))
+  );
+
+  const styles = new Map<string, OdtStyle>();
+  for (const document of documents) {
+    for (const style of descendants(document, 'style:style')) {
+      const name = style.getAttribute('style:name') || '';
+      const displayName = style.getAttribute('style:display-name') || name.replace(/_20_/g, ' ');
+      const properties = elementChildren(style).find(child => child.nodeName === 'style:text-properties');
+      styles.set(name, {
+        parent: style.getAttribute('style:parent-style-name') || undefined,
+        code: CODE_STYLE.test(displayName) || fixedPitchFonts.has(properties?.getAttribute('style:font-name') || null),
+        bold: properties?.getAttribute('fo:font-weight') === 'bold',
+        italic: properties?.getAttribute('fo:font-style') === 'italic'
+      });
+    }
+    for (const listStyle of descendants(document, 'text:list-style')) {
+      const firstLevel = elementChildren(listStyle)[0];
+      styles.set(listStyle.getAttribute('style:name') || '', {
+        code: false,
+        bold: false,
+        italic: false,
+        ordered: firstLevel?.nodeName === 'text:list-level-style-number'
+      });
+    }
+  }
+  return styles;
+}
+
+// Serialises the body of an ODT document as HTML, tracking style inheritance
+function createOdtRenderer(styles: Map<string, OdtStyle>) {
+  const isCode = (styleName: string | null): boolean => {
+    const seen = new Set<string>();
+    for (let name = styleName; name && !seen.has(name); name = styles.get(name)?.parent || null) {
+      seen.add(name);
+      if (styles.get(name)?.code || CODE_STYLE.test(name.replace(/_20_/g, ' '))) return true;
+    }
+    return false;
+  };
+
+  const inline = (node: Node): string => Array.from(node.childNodes).map(child => {
+    if (child.nodeType === child.TEXT_NODE) return escapeHtml(child.nodeValue || '');
+    if (child.nodeType !== child.ELEMENT_NODE) return '';
+
+    const element = child as Element;
+    switch (element.nodeName) {
+      case 'text:s':
+        return ' '.repeat(Number(element.getAttribute('text:c')) || 1);
+      case 'text:tab':
+        return '\t';
+      case 'text:line-break':
+        return '<br>';
+      case 'text:a':
+        return `<a href="${escapeHtml(element.getAttribute('xlink:href') || '')}">${inline(element)}</a>`;
+      case 'text:span': {
+        const styleName = element.getAttribute('text:style-name');
+        const style = styleName ? styles.get(styleName) : undefined;
+        let html = inline(element);
+        if (isCode(styleName)) html = `<code>${html}</code>`;
+        if (style?.bold) html = `<strong>${html}</strong>`;
+        if (style?.italic) html = `<em>${html}</em>`;
+        return html;
+      }
+      case 'text:note':
+      case 'text:bookmark':
+      case 'text:bookmark-start':
+      case 'text:bookmark-end':
+      case 'office:annotation':
+        return '';
+      default:
+        return inline(element);
+    }
+  }).join('');
+
+  // Code lines keep their spacing; everything else is rendered as inline HTML
+  const codeText = (node: Node): string => Array.from(node.childNodes).map(child => {
+    if (child.nodeType === child.TEXT_NODE) return child.nodeValue || '';
+    const element = child as Element;
+    if (element.nodeName === 'text:s') return ' '.repeat(Number(element.getAttribute('text:c')) || 1);
+    if (element.nodeName === 'text:tab') return '\t';
+    if (element.nodeName === 'text:line-break') return '\n';
+    return child.nodeType === child.ELEMENT_NODE ? codeText(element) : '';
+  }).join('');
+
+  const blocks = (node: Node): string => {
+    const html: string[] = [];
+    let codeLines: string[] = [];
+
+    const flushCode = () => {
+      if (codeLines.length > 0) html.push(`<pre>${escapeHtml(codeLines.join('\n'))}</pre>`);
+      codeLines = [];
+    };
+
+    for (const element of elementChildren(node)) {
+      if (element.nodeName === 'text:p' && isCode(element.getAttribute('text:style-name'))) {
+        codeLines.push(codeText(element));
+        continue;
+      }
+      flushCode();
+
+      switch (element.nodeName) {
+        case 'text:h': {
+          const level = Math.min(Math.max(Number(element.getAttribute('text:outline-level')) || 1, 1), 6);
+          html.push(`<h${level}>${inline(element)}</h${level}>`);
+          break;
+        }
+        case 'text:p':
+          html.push(`<p>${inline(element)}</p>`);
+          break;
+        case 'text:list': {
+          const ordered = styles.get(element.getAttribute('text:style-name') || '')?.ordered;
+          const items = elementChildren(element)
+            .filter(item => item.nodeName === 'text:list-item' || item.nodeName === 'text:list-header')
+            .map(item => `<li>${blocks(item)}</li>`);
+          html.push(ordered ? `<ol>${items.join('')}</ol>` : `<ul>${items.join('')}</ul>`);
+          break;
+        }
+        case 'table:table': {
+          const rows = descendants(element, 'table:table-row').map(row =>
+            `<tr>${elementChildren(row)
+              .filter(cell => cell.nodeName === 'table:table-cell')
+              .map(cell => `<td>${blocks(cell)}</td>`)
+              .join('')}</tr>`
+          );
+          html.push(`<table>${rows.join('')}</table>`);
+          break;
+        }
+        case 'text:section':
+        case 'text:index-body':
+          html.push(blocks(element));
+          break;
+        default:
+          // Table of contents, tracked changes, variable declarations and the like
+          break;
+      }
+    }
+
+    flushCode();
+    return html.join('\n');
+  };
+
+  return blocks;
+}
+
+/**
+ * Convert an OpenDocument text file to markdown the same way as DOCX:
+ * outline levels become `#` levels, lists and tables are kept, and paragraphs
+ * in code styles (or set in a fixed-pitch font) become fenced code blocks.
+ */
+export async function extractOdtText(data: Uint8Array, fileName: string): Promise<string> {
+  let html: string;
+  try {
+    const zip = await JSZip.loadAsync(data);
+    const content = await zip.file('content.xml')?.async('string');
+    if (!content) {
+      throw new Error('content.xml is missing');
+    }
+    const stylesXml = await zip.file('styles.xml')?.async('string');
+
+    const parser = new DOMParser();
+    const contentDocument = parser.parseFromString(content, 'text/xml');
+    const documents: Node[] = [contentDocument];
+    if (stylesXml) documents.push(parser.parseFromString(stylesXml, 'text/xml'));
+
+    const body = descendants(contentDocument, 'office:text')[0];
+    if (!body) {
+      throw new Error('not a text document');
+    }
+    html = createOdtRenderer(readOdtStyles(documents))(body);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`ODT extraction failed for ${fileName}: ${errorMessage}`);
+  }
+
+  return requireText(htmlToMarkdown(html), fileName);
+}
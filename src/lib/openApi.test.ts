@@ -0,0 +1,196 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { chunkOpenApiSpec, parseOpenApiSpec } from './openApi';
+import type { DocumentChunk } from '@/types';
+
+const SOURCE = { source: 'api.yaml', domain: 'openapi-test', type: 'custom' as const };
+
+const OPENAPI_3 = `openapi: 3.0.3
+info:
+  title: Tasks API
+  version: 1.2.0
+  description: Manage tasks and their subtasks.
+servers:
+  - url: https://api.example.com/v1
+components:
+  securitySchemes:
+    bearer:
+      type: http
+      scheme: bearer
+  parameters:
+    TaskId:
+      name: id
+      in: path
+      required: true
+      schema:
+        type: string
+  schemas:
+    Entity:
+      type: object
+      required: [id]
+      properties:
+        id:
+          type: string
+          readOnly: true
+    Task:
+      allOf:
+        - $ref: '#/components/schemas/Entity'
+        - type: object
+          required: [title]
+          properties:
+            title:
+              type: string
+              description: Short name
+            status:
+              type: string
+              enum: [open, done]
+              default: open
+            subtasks:
+              type: array
+              items:
+                $ref: '#/components/schemas/Task'
+security:
+  - bearer: []
+paths:
+  /tasks/{id}:
+    parameters:
+      - $ref: '#/components/parameters/TaskId'
+    get:
+      operationId: getTask
+      tags: [Tasks]
+      summary: Fetch a task
+      responses:
+        '200':
+          description: The task
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Task'
+              example:
+                id: t_1
+                title: Write tests
+    put:
+      operationId: updateTask
+      tags: [Tasks]
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              $ref: '#/components/schemas/Task'
+      responses:
+        '204':
+          description: Updated
+`;
+
+const SWAGGER_2 = JSON.stringify({
+  swagger: '2.0',
+  info: { title: 'Pets API', version: '1', description: 'Register pets, look them up and track their family trees.' },
+  host: 'pets.example.com',
+  basePath: '/api',
+  schemes: ['https'],
+  consumes: ['application/json'],
+  produces: ['application/json'],
+  definitions: {
+    Pet: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string' },
+        parent: { $ref: '#/definitions/Pet' },
+        tags: { type: 'array', items: { type: 'string' } }
+      }
+    }
+  },
+  paths: {
+    '/pets': {
+      post: {
+        operationId: 'createPet',
+        tags: ['Pets'],
+        parameters: [
+          { name: 'body', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } },
+          { name: 'dryRun', in: 'query', type: 'boolean', description: 'Validate only' }
+        ],
+        responses: {
+          201: { description: 'Created', schema: { $ref: '#/definitions/Pet' } }
+        }
+      }
+    }
+  }
+});
+
+function operation(chunks: DocumentChunk[], operationId: string): DocumentChunk {
+  const chunk = chunks.find(candidate => candidate.metadata.operationId === operationId);
+  assert.ok(chunk, `no chunk for ${operationId}`);
+  return chunk;
+}
+
+describe('chunkOpenApiSpec', () => {
+  it('renders an OpenAPI 3 operation with refs resolved and allOf merged', async () => {
+    const chunks = await chunkOpenApiSpec(parseOpenApiSpec(OPENAPI_3)!, SOURCE);
+    const getTask = operation(chunks, 'getTask');
+
+    assert.deepEqual(getTask.metadata.headings, ['Tasks API', 'Tasks', 'GET /tasks/{id}']);
+    assert.equal(getTask.metadata.httpMethod, 'GET');
+    assert.equal(getTask.metadata.apiPath, '/tasks/{id}');
+    assert.ok(getTask.content.startsWith('# Tasks API › Tasks › GET /tasks/{id}\n\n'));
+    assert.ok(getTask.content.includes('Authentication: bearer'));
+    assert.ok(getTask.content.includes('| `id` | path | string | yes |  |'));
+    assert.ok(getTask.content.includes('- `id` (string, required, read-only)'));
+    assert.ok(getTask.content.includes('- `title` (string, required): Short name'));
+    assert.ok(getTask.content.includes('- `status` (string, one of `"open"`, `"done"`, default `"open"`)'));
+    assert.ok(getTask.content.includes('"title": "Write tests"'));
+    assert.deepEqual(getTask.metadata.languages, ['json']);
+
+    const updateTask = operation(chunks, 'updateTask');
+    assert.ok(updateTask.content.includes('## Request body (`application/json`), required'));
+    assert.ok(chunks.some(chunk => chunk.content.includes('Base URL: `https://api.example.com/v1`')));
+  });
+
+  it('names a circular $ref instead of expanding it', async () => {
+    const getTask = operation(await chunkOpenApiSpec(parseOpenApiSpec(OPENAPI_3)!, SOURCE), 'getTask');
+    assert.ok(getTask.content.includes('- `subtasks` (array of Task (recursive))'), getTask.content);
+    assert.equal(getTask.content.split('`subtasks`').length - 1, 1);
+  });
+
+  it('renders a Swagger 2 body parameter, definitions and a self-referencing schema', async () => {
+    const chunks = await chunkOpenApiSpec(parseOpenApiSpec(SWAGGER_2)!, { ...SOURCE, source: 'pets.json' });
+    const createPet = operation(chunks, 'createPet');
+
+    assert.deepEqual(createPet.metadata.tags, ['Pets']);
+    assert.ok(createPet.content.includes('## Request body (`application/json`), required'));
+    assert.ok(createPet.content.includes('Schema: object (Pet)'));
+    assert.ok(createPet.content.includes('- `parent` (Pet (recursive))'), createPet.content);
+    assert.ok(createPet.content.includes('| `dryRun` | query | boolean | no | Validate only |'));
+    assert.ok(createPet.content.includes('### 201: Created'));
+    assert.ok(!createPet.content.includes('| `body` |'));
+    assert.ok(chunks.some(chunk => chunk.content.includes('Base URL: `https://pets.example.com/api`')));
+  });
+
+  it('splits an oversized operation into chunks under the size cap', async () => {
+    const parameters = Array.from({ length: 150 }, (_, n) => ({
+      name: `filter${n}`,
+      in: 'query',
+      schema: { type: 'string' },
+      description: `Only return records whose field ${n} matches this value exactly`
+    }));
+    const spec = parseOpenApiSpec(JSON.stringify({
+      openapi: '3.0.0',
+      info: { title: 'Search API', version: '1' },
+      paths: { '/search': { get: { operationId: 'search', summary: 'Search records', parameters, responses: { 200: { description: 'OK' } } } } }
+    }))!;
+
+    const parts = (await chunkOpenApiSpec(spec, SOURCE)).filter(chunk => chunk.metadata.operationId === 'search');
+    assert.ok(parts.length > 1);
+    assert.deepEqual(parts.map(part => part.metadata.chunkIndex), parts.map((_, index) => index));
+    parts.forEach(part => {
+      assert.ok(part.content.length <= 6000, `${part.content.length} characters`);
+      assert.ok(part.content.startsWith('# Search API › Endpoints › GET /search\n\n**`GET /search`** - Search records'));
+    });
+    parts.slice(1, -1).forEach(part => assert.ok(part.content.includes('| Name | In | Type | Required | Description |')));
+
+    const text = parts.map(part => part.content).join('\n');
+    parameters.forEach(({ name }) => assert.equal(text.split(`| \`${name}\` |`).length - 1, 1, name));
+    assert.ok(parts[parts.length - 1].content.includes('### 200: OK'));
+  });
+});
@@ -0,0 +1,449 @@
+import { parse as parseYaml } from 'yaml';
+import { chunkDocument, pageMetadata, type ChunkSource } from './chunking';
+import type { DocumentChunk } from '@/types';
+
+type JsonObject = Record<string, unknown>;
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Limits that keep one operation's chunk a sensible size for embedding
+const MAX_SCHEMA_DEPTH = 5;
+const MAX_PROPERTIES = 40;
+const MAX_ENUM_VALUES = 15;
+const MAX_EXAMPLE_CHARS = 1500;
+// Longer operations are split into several chunks, staying under the embedding input cap
+const MAX_OPERATION_CHARS = 6000;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function cell(text: unknown): string {
+  return String(text ?? '').replace(/\s*\n+\s*/g, ' ').replace(/\|/g, '\\|').trim();
+}
+
+// An OpenAPI 3 / Swagger 2 spec parsed from JSON or YAML, or undefined for any other text
+export function parseOpenApiSpec(text: string): JsonObject | undefined {
+  const trimmed = text.trim();
+  let document: unknown;
+  try {
+    if (trimmed.startsWith('{')) {
+      document = JSON.parse(trimmed);
+    } else if (/^['"]?(openapi|swagger)['"]?\s*:/m.test(trimmed)) {
+      document = parseYaml(trimmed);
+    }
+  } catch {
+    return undefined;
+  }
+
+  if (!isObject(document) || !isObject(document.paths)) return undefined;
+  const isOpenApi3 = typeof document.openapi === 'string' && document.openapi.startsWith('3.');
+  const isSwagger2 = String(document.swagger) === '2.0';
+  return isOpenApi3 || isSwagger2 ? document : undefined;
+}
+
+/**
+ * Follows local `$ref`s (`#/components/...`, `#/definitions/...`) through the
+ * spec and renders schemas, parameters, bodies and responses as markdown.
+ * References to other files are shown by name but not fetched.
+ */
+function createSpecRenderer(spec: JsonObject) {
+  const lookup = (ref: string): unknown => {
+    if (!ref.startsWith('#/')) return undefined;
+    return ref.slice(2).split('/').reduce<unknown>((node, segment) => {
+      const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+      return isObject(node) || Array.isArray(node) ? (node as JsonObject)[key] : undefined;
+    }, spec);
+  };
+
+  // The referenced object (following chains of refs) and the name of the last ref, e.g. 'User'
+  const resolve = (value: unknown): { node: JsonObject; ref?: string } => {
+    let node = value;
+    let ref: string | undefined;
+    for (let hops = 0; hops < 10 && isObject(node) && typeof node.$ref === 'string'; hops++) {
+      ref = node.$ref;
+      const target = lookup(node.$ref);
+      if (target === undefined) return { node: { description: `See \`${node.$ref}\`` }, ref };
+      node = target;
+    }
+    return { node: isObject(node) ? node : {}, ref };
+  };
+
+  const refName = (ref?: string) => ref?.split('/').pop();
+
+  // allOf members merged into one schema, so inherited properties show up
+  const flatten = (schema: JsonObject): JsonObject => {
+    if (!Array.isArray(schema.allOf)) return schema;
+    const merged: JsonObject = { ...schema, allOf: undefined, properties: {}, required: [] };
+    for (const part of [...schema.allOf, { properties: schema.properties, required: schema.required }]) {
+      const member = flatten(resolve(part).node);
+      merged.type = merged.type || member.type;
+      merged.description = merged.description || member.description;
+      merged.properties = { ...(merged.properties as JsonObject), ...(isObject(member.properties) ? member.properties : {}) };
+      merged.required = [...(merged.required as string[]), ...(Array.isArray(member.required) ? member.required : [])];
+    }
+    if (!merged.type && Object.keys(merged.properties as JsonObject).length > 0) merged.type = 'object';
+    return merged;
+  };
+
+  const typeLabel = (value: unknown, stack: string[] = []): string => {
+    const { node, ref } = resolve(value);
+    const name = refName(ref);
+    if (ref && stack.includes(ref)) return `${name} (recursive)`;
+    const schema = flatten(node);
+    const nextStack = ref ? [...stack, ref] : stack;
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter(type => typeof type === 'string');
+    const nullable = schema.nullable === true || types.includes('null');
+    let label = types.filter(type => type !== 'null').join(' | ') ||
+      (schema.properties || schema.additionalProperties ? 'object' : Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf) ? 'one of' : 'any');
+
+    if (label === 'array') {
+      label = `array of ${typeLabel(schema.items, nextStack)}`;
+    } else if (label === 'object' && !schema.properties && isObject(schema.additionalProperties)) {
+      label = `map of ${typeLabel(schema.additionalProperties, nextStack)}`;
+    }
+    if (typeof schema.format === 'string') label += `<${schema.format}>`;
+    if (name && !label.startsWith('array')) label += ` (${name})`;
+    if (nullable) label += ', nullable';
+    return label;
+  };
+
+  const constraints = (schema: JsonObject): string[] => {
+    const notes: string[] = [];
+    if (Array.isArray(schema.enum)) {
+      const values = schema.enum.slice(0, MAX_ENUM_VALUES).map(value => `\`${JSON.stringify(value)}\``);
+      notes.push(`one of ${values.join(', ')}${schema.enum.length > MAX_ENUM_VALUES ? ', ...' : ''}`);
+    }
+    if (schema.default !== undefined) notes.push(`default \`${JSON.stringify(schema.default)}\``);
+    if (schema.readOnly === true) notes.push('read-only');
+    if (schema.writeOnly === true) notes.push('write-only');
+    if (schema.deprecated === true) notes.push('deprecated');
+    return notes;
+  };
+
+  // Nested bullet list of an object's properties (or of a union's variants)
+  const schemaLines = (value: unknown, indent: string, depth: number, stack: string[]): string[] => {
+    const { node, ref } = resolve(value);
+    if (ref && stack.includes(ref)) return [];
+    const schema = flatten(node);
+    const nextStack = ref ? [...stack, ref] : stack;
+    if (depth > MAX_SCHEMA_DEPTH) return [];
+
+    const items = resolve(schema.items);
+    if (schema.type === 'array' && (isObject(flatten(items.node).properties) || items.node.oneOf || items.node.anyOf)) {
+      return schemaLines(schema.items, indent, depth, nextStack);
+    }
+
+    const variants = Array.isArray(schema.oneOf) ? schema.oneOf : Array.isArray(schema.anyOf) ? schema.anyOf : null;
+    if (variants) {
+      return variants.flatMap((variant, index) => [
+        `${indent}- Option ${index + 1}: ${typeLabel(variant, nextStack)}`,
+        ...schemaLines(variant, `${indent}  `, depth + 1, nextStack)
+      ]);
+    }
+
+    if (!isObject(schema.properties)) return [];
+    const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+    const properties = Object.entries(schema.properties);
+    const lines = properties.slice(0, MAX_PROPERTIES).flatMap(([name, property]) => {
+      const resolved = flatten(resolve(property).node);
+      const details = [typeLabel(property, nextStack), ...(required.has(name) ? ['required'] : []), ...constraints(resolved)];
+      const description = asString(resolved.description);
+      return [
+        `${indent}- \`${name}\` (${details.join(', ')})${description ? `: ${cell(description)}` : ''}`,
+        ...schemaLines(property, `${indent}  `, depth + 1, nextStack)
+      ];
+    });
+    if (properties.length > MAX_PROPERTIES) lines.push(`${indent}- ... ${properties.length - MAX_PROPERTIES} more properties`);
+    return lines;
+  };
+
+  const renderSchema = (schema: unknown): string[] => {
+    const { node } = resolve(schema);
+    const lines = schemaLines(schema, '', 0, []);
+    const description = asString(flatten(node).description);
+    return [
+      `Schema: ${typeLabel(schema)}${description ? ` - ${cell(description)}` : ''}`,
+      ...(lines.length > 0 ? ['', ...lines] : [])
+    ];
+  };
+
+  const renderExample = (example: unknown, mediaType: string): string[] => {
+    if (example === undefined) return [];
+    const language = /json/i.test(mediaType) ? 'json' : /xml/i.test(mediaType) ? 'xml' : /yaml/i.test(mediaType) ? 'yaml' : '';
+    let text = typeof example === 'string' ? example : JSON.stringify(example, null, 2);
+    if (text.length > MAX_EXAMPLE_CHARS) text = `${text.slice(0, MAX_EXAMPLE_CHARS)}\n...`;
+    return ['', 'Example:', '', `\`\`\`${language}`, text, '```'];
+  };
+
+  // A media type object: its schema and the first example found
+  const renderContent = (media: JsonObject, mediaType: string): string[] => {
+    const examples = isObject(media.examples) ? Object.values(media.examples).map(entry => resolve(entry).node.value) : [];
+    const example = media.example ?? examples.find(value => value !== undefined) ?? resolve(media.schema).node.example;
+    return [...(media.schema ? renderSchema(media.schema) : []), ...renderExample(example, mediaType)];
+  };
+
+  return { resolve, flatten, typeLabel, constraints, renderSchema, renderContent };
+}
+
+interface Operation {
+  method: string;
+  path: string;
+  operation: JsonObject;
+  pathItem: JsonObject;
+}
+
+function listOperations(spec: JsonObject): Operation[] {
+  return Object.entries(spec.paths as JsonObject).flatMap(([path, pathItem]) =>
+    isObject(pathItem)
+      ? HTTP_METHODS
+        .filter(method => isObject(pathItem[method]))
+        .map(method => ({ method, path, operation: pathItem[method] as JsonObject, pathItem }))
+      : []
+  );
+}
+
+// Markdown for one operation: summary, parameters, request body and responses
+function renderOperation(
+  { method, path, operation, pathItem }: Operation,
+  spec: JsonObject,
+  renderer: ReturnType<typeof createSpecRenderer>
+): string {
+  const isSwagger2 = String(spec.swagger) === '2.0';
+  const lines: string[] = [`**\`${method.toUpperCase()} ${path}\`**${asString(operation.summary) ? ` - ${cell(operation.summary)}` : ''}`];
+
+  const facts = [
+    asString(operation.operationId) && `Operation ID: \`${operation.operationId}\``,
+    Array.isArray(operation.tags) && operation.tags.length > 0 && `Tags: ${operation.tags.join(', ')}`,
+    operation.deprecated === true && '**Deprecated**'
+  ].filter(Boolean);
+  if (facts.length > 0) lines.push('', facts.join(' · '));
+  if (asString(operation.description)) lines.push('', String(operation.description).trim());
+
+  const security = (Array.isArray(operation.security) ? operation.security : Array.isArray(spec.security) ? spec.security : [])
+    .filter(isObject)
+    .flatMap(requirement => Object.keys(requirement));
+  if (security.length > 0) lines.push('', `Authentication: ${Array.from(new Set(security)).join(' or ')}`);
+
+  // Operation parameters override path-level ones with the same name and location
+  const parameters = new Map<string, JsonObject>();
+  for (const value of [
+    ...(Array.isArray(pathItem.parameters) ? pathItem.parameters : []),
+    ...(Array.isArray(operation.parameters) ? operation.parameters : [])
+  ]) {
+    const parameter = renderer.resolve(value).node;
+    parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+  }
+
+  const listed = Array.from(parameters.values()).filter(parameter => parameter.in !== 'body' && parameter.in !== 'formData');
+  if (listed.length > 0) {
+    lines.push('', '## Parameters', '', '| Name | In | Type | Required | Description |', '| --- | --- | --- | --- | --- |');
+    for (const parameter of listed) {
+      const schema = parameter.schema ?? (isObject(parameter.content) ? (Object.values(parameter.content)[0] as JsonObject)?.schema : undefined) ?? parameter;
+      const notes = renderer.constraints(renderer.flatten(renderer.resolve(schema).node));
+      const description = [asString(parameter.description), ...notes].filter(Boolean).join('; ');
+      lines.push(`| \`${cell(parameter.name)}\` | ${cell(parameter.in)} | ${cell(renderer.typeLabel(schema))} | ${parameter.required === true ? 'yes' : 'no'} | ${cell(description)} |`);
+    }
+  }
+
+  // Request body: requestBody in OpenAPI 3, a `body` or `formData` parameters in Swagger 2
+  const consumes = (operation.consumes ?? spec.consumes) as string[] | undefined;
+  if (isSwagger2) {
+    const body = Array.from(parameters.values()).find(parameter => parameter.in === 'body');
+    const form = Array.from(parameters.values()).filter(parameter => parameter.in === 'formData');
+    if (body) {
+      const mediaType = consumes?.[0] || 'application/json';
+      lines.push('', `## Request body (\`${mediaType}\`)${body.required === true ? ', required' : ''}`);
+      if (asString(body.description)) lines.push('', String(body.description).trim());
+      lines.push('', ...renderer.renderContent({ schema: body.schema, example: body['x-example'] }, mediaType));
+    } else if (form.length > 0) {
+      const properties = Object.fromEntries(form.map(parameter => [parameter.name, parameter]));
+      const required = form.filter(parameter => parameter.required === true).map(parameter => parameter.name);
+      lines.push('', `## Request body (\`${consumes?.[0] || 'multipart/form-data'}\`)`, '', ...renderer.renderSchema({ type: 'object', properties, required }));
+    }
+  } else if (operation.requestBody) {
+    const requestBody = renderer.resolve(operation.requestBody).node;
+    for (const [mediaType, media] of Object.entries(isObject(requestBody.content) ? requestBody.content : {})) {
+      lines.push('', `## Request body (\`${mediaType}\`)${requestBody.required === true ? ', required' : ''}`);
+      if (asString(requestBody.description)) lines.push('', String(requestBody.description).trim());
+      lines.push('', ...renderer.renderContent(isObject(media) ? media : {}, mediaType));
+    }
+  }
+
+  const responses = isObject(operation.responses) ? Object.entries(operation.responses) : [];
+  if (responses.length > 0) {
+    lines.push('', '## Responses');
+    const produces = (operation.produces ?? spec.produces) as string[] | undefined;
+    for (const [status, value] of responses) {
+      const response = renderer.resolve(value).node;
+      lines.push('', `### ${status}${asString(response.description) ? `: ${cell(response.description)}` : ''}`);
+      if (isSwagger2) {
+        const mediaType = produces?.[0] || 'application/json';
+        const example = isObject(response.examples) ? Object.values(response.examples)[0] : undefined;
+        if (response.schema || example !== undefined) {
+          lines.push('', ...renderer.renderContent({ schema: response.schema, example }, mediaType));
+        }
+      } else {
+        for (const [mediaType, media] of Object.entries(isObject(response.content) ? response.content : {})) {
+          const rendered = renderer.renderContent(isObject(media) ? media : {}, mediaType);
+          if (rendered.length > 0) lines.push('', `Content type: \`${mediaType}\``, '', ...rendered);
+        }
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// Blocks of `text` that start at lines `startsBlock` accepts, never inside a fenced code block
+function splitOutsideFences(text: string, startsBlock: (line: string) => boolean): string[] {
+  const blocks: string[][] = [[]];
+  let fence: string | null = null;
+
+  for (const line of text.split('\n')) {
+    const marker = line.match(/^ {0,3}(`{3,}|~{3,})(.*)$/);
+    if (fence) {
+      if (marker && marker[1][0] === fence[0] && marker[1].length >= fence.length && !marker[2].trim()) fence = null;
+    } else if (marker) {
+      fence = marker[1];
+    } else if (startsBlock(line) && blocks[blocks.length - 1].length > 0) {
+      blocks.push([]);
+    }
+    blocks[blocks.length - 1].push(line);
+  }
+
+  return blocks.map(lines => lines.join('\n').trim()).filter(Boolean);
+}
+
+// A block too big for one chunk, cut between lines; tables repeat their header row
+function splitBlockLines(block: string, limit: number): string[] {
+  const lines = block.split('\n');
+  const header = lines[0].startsWith('|') && lines.length > 2 ? lines.slice(0, 2) : [];
+  const pieces: string[] = [];
+  let current = [...header];
+
+  for (const line of lines.slice(header.length)) {
+    for (let start = 0; start < Math.max(line.length, 1); start += limit) {
+      const part = line.slice(start, start + limit);
+      if ([...current, part].join('\n').length > limit && current.length > header.length) {
+        pieces.push(current.join('\n'));
+        current = [...header];
+      }
+      current.push(part);
+    }
+  }
+  if (current.length > header.length) pieces.push(current.join('\n'));
+  return pieces;
+}
+
+/**
+ * Split a rendered operation longer than `limit` characters between its `##` /
+ * `###` sections, then between blocks and lines of a section that is too big
+ * on its own. Every part after the first starts with the operation's title.
+ */
+function splitOperation(body: string, limit: number): string[] {
+  if (body.length <= limit) return [body];
+
+  const title = body.split('\n')[0];
+  const continued = `${title} (continued)\n\n`;
+  const room = limit - continued.length;
+  const units = splitOutsideFences(body, line => /^#{2,3} /.test(line)).flatMap(section =>
+    section.length <= room
+      ? [section]
+      : splitOutsideFences(section, line => !line.trim()).flatMap(block =>
+        block.length <= room ? [block] : splitBlockLines(block, room)
+      )
+  );
+
+  const parts: string[] = [];
+  let current = '';
+  for (const unit of units) {
+    if (current && current.length + unit.length + 2 > limit) {
+      parts.push(current);
+      current = `${continued}${unit}`;
+    } else {
+      current = current ? `${current}\n\n${unit}` : unit;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+// API title, version, servers, auth schemes and description, for the overview chunks
+function renderOverview(spec: JsonObject): string {
+  const info = isObject(spec.info) ? spec.info : {};
+  const lines = [`Version: ${asString(info.version) || 'unspecified'}`];
+
+  const servers = Array.isArray(spec.servers)
+    ? spec.servers.filter(isObject).map(server => asString(server.url)).filter(Boolean)
+    : spec.host ? [`${(spec.schemes as string[] | undefined)?.[0] || 'https'}://${spec.host}${spec.basePath || ''}`] : [];
+  if (servers.length > 0) lines.push(`Base URL: ${servers.map(url => `\`${url}\``).join(', ')}`);
+
+  const schemes = isObject(spec.components) && isObject(spec.components.securitySchemes)
+    ? spec.components.securitySchemes
+    : isObject(spec.securityDefinitions) ? spec.securityDefinitions : {};
+  const auth = Object.entries(schemes).filter(([, scheme]) => isObject(scheme)).map(([name, scheme]) => {
+    const { type, scheme: httpScheme, in: location, name: field } = scheme as JsonObject;
+    return `- \`${name}\`: ${[type, httpScheme, location && field && `${field} in ${location}`].filter(Boolean).join(', ')}`;
+  });
+  if (auth.length > 0) lines.push('', 'Authentication schemes:', '', ...auth);
+
+  if (asString(info.description)) lines.push('', String(info.description).trim());
+  return lines.join('\n');
+}
+
+/**
+ * Chunk an OpenAPI 3 / Swagger 2 spec: one chunk per operation with its
+ * method, path, parameters, request and response schemas ($refs resolved) and
+ * examples as markdown, headed `# API › Tag › METHOD /path`. An operation
+ * longer than MAX_OPERATION_CHARS is split between its sections into several
+ * chunks. Each chunk records operationId, tags, httpMethod and apiPath for
+ * filtering. The API's own description is chunked like any other document.
+ */
+export async function chunkOpenApiSpec(spec: JsonObject, { source, domain, type, page }: ChunkSource): Promise<DocumentChunk[]> {
+  const info = isObject(spec.info) ? spec.info : {};
+  const apiTitle = asString(info.title) || page?.title || 'API';
+  const renderer = createSpecRenderer(spec);
+
+  const chunks = await chunkDocument(`# ${apiTitle}\n\n${renderOverview(spec)}`, { source, domain, type, page });
+
+  const indexByTag = new Map<string, number>();
+  for (const entry of listOperations(spec)) {
+    const tags = Array.isArray(entry.operation.tags) ? entry.operation.tags.filter((tag): tag is string => typeof tag === 'string') : [];
+    const section = tags[0] || 'Endpoints';
+    const endpoint = `${entry.method.toUpperCase()} ${entry.path}`;
+    const headings = [apiTitle, section, endpoint];
+    const breadcrumb = `# ${headings.join(' › ')}\n\n`;
+
+    for (const body of splitOperation(renderOperation(entry, spec, renderer), MAX_OPERATION_CHARS - breadcrumb.length)) {
+      const languages = Array.from(new Set(Array.from(body.matchAll(/^```(\w+)$/gm), match => match[1])));
+      const chunkIndex = indexByTag.get(section) || 0;
+      indexByTag.set(section, chunkIndex + 1);
+
+      chunks.push({
+        content: `${breadcrumb}${body}`,
+        metadata: {
+          source,
+          section,
+          subsection: endpoint,
+          type,
+          chunkIndex,
+          domain,
+          headings,
+          ...(languages.length > 0 && { languages }),
+          ...pageMetadata(page),
+          ...(asString(entry.operation.operationId) && { operationId: String(entry.operation.operationId).trim() }),
+          ...(tags.length > 0 && { tags }),
+          httpMethod: entry.method.toUpperCase(),
+          apiPath: entry.path
+        }
+      });
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { chunkDocument, getChunkingOptions } from './chunking';
+import { extractPdfText } from './pdf';
+
+interface PdfText {
+  text: string;
+  size: number;
+  y: number;                        // Baseline, from the bottom of a 792pt page
+}
+
+// A minimal PDF with one Helvetica text line per entry, xref offsets computed
+function buildPdf(pages: PdfText[][]): Uint8Array {
+  const fontId = 3 + pages.length * 2;
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${3 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`
+  ];
+  pages.forEach((lines, index) => {
+    const stream = lines
+      .map(({ text, size, y }) => `BT /F1 ${size} Tf 72 ${y} Td (${text.replace(/[()\\]/g, '\\$&')}) Tj ET`)
+      .join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${4 + index * 2} 0 R ` +
+      `/Resources << /Font << /F1 ${fontId} 0 R >> >> >>`,
+      `<< /Length ${Buffer.byteLength(stream)} >>\nstream\n${stream}\nendstream`
+    );
+  });
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new Uint8Array(Buffer.from(pdf, 'latin1'));
+}
+
+function body(lines: string[], top: number): PdfText[] {
+  return lines.map((text, index) => ({ text, size: 11, y: top - index * 14 }));
+}
+
+// Built per call: pdf.js takes over the buffer it is given
+const guide = () => buildPdf([
+  [
+    { text: 'Operations Guide', size: 24, y: 720 },
+    ...body([
+      'This guide explains how background functions are deployed and monitored',
+      'in production, and which settings matter for reliable execution.'
+    ], 690),
+    { text: 'Retries', size: 16, y: 620 },
+    ...body([
+      'Failed steps are retried with exponential backoff until the retry limit',
+      'is reached. Each retry runs the step again from the start.'
+    ], 596)
+  ],
+  [
+    ...body([
+      'Steps that already succeeded are memoized and are not executed again',
+      'when a later step of the same run fails and is retried.'
+    ], 720),
+    { text: 'Concurrency', size: 16, y: 660 },
+    ...body([
+      'Concurrency limits cap how many runs of a function execute at the same',
+      'time, optionally per key such as a customer or tenant identifier.'
+    ], 636)
+  ]
+]);
+
+describe('extractPdfText', () => {
+  it('marks pages and turns larger font sizes into heading levels', async () => {
+    const markdown = await extractPdfText(guide(), 'guide.pdf');
+
+    assert.equal(markdown, [
+      '<!-- page: 1 -->',
+      '# Operations Guide',
+      'This guide explains how background functions are deployed and monitored in production, and which settings matter for reliable execution.',
+      '## Retries',
+      'Failed steps are retried with exponential backoff until the retry limit is reached. Each retry runs the step again from the start.',
+      '<!-- page: 2 -->',
+      'Steps that already succeeded are memoized and are not executed again when a later step of the same run fails and is retried.',
+      '## Concurrency',
+      'Concurrency limits cap how many runs of a function execute at the same time, optionally per key such as a customer or tenant identifier.'
+    ].join('\n\n'));
+  });
+
+  it('gives chunks the pages they span', async () => {
+    const chunks = await chunkDocument(
+      await extractPdfText(guide(), 'guide.pdf'),
+      { source: 'guide.pdf', domain: 'pdf-test', type: 'custom' },
+      { ...getChunkingOptions('pdf-test'), strategy: 'heading' }
+    );
+    const pages = Object.fromEntries(chunks.map(chunk => [chunk.metadata.subsection || chunk.metadata.section, [chunk.metadata.pageStart, chunk.metadata.pageEnd]]));
+
+    assert.deepEqual(pages, {
+      'Operations Guide': [1, 1],
+      Retries: [1, 2],
+      Concurrency: [2, 2]
+    });
+  });
+
+  it('rejects a PDF without a text layer', async () => {
+    await assert.rejects(
+      extractPdfText(buildPdf([[], []]), 'scan.pdf'),
+      /scan\.pdf has no text layer \(0 characters on 2 pages\) - it looks like a scanned PDF/
+    );
+  });
+
+  it('names the file when the data is not a PDF', async () => {
+    await assert.rejects(
+      extractPdfText(new Uint8Array(Buffer.from('not a pdf')), 'broken.pdf'),
+      /PDF extraction failed for broken\.pdf/
+    );
+  });
+});
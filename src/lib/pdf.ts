@@ -0,0 +1,145 @@
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { pageMarker } from './chunking';
+
+interface PdfLine {
+  text: string;
+  size: number;                     // Largest font size on the line
+  y: number;
+}
+
+// Pages averaging fewer extracted characters than this have no real text layer
+const MIN_CHARS_PER_PAGE = 20;
+
+// Lines at least this much larger than the body text are headings
+const HEADING_SIZE_RATIO = 1.2;
+
+function roundSize(size: number): number {
+  return Math.round(size * 2) / 2;
+}
+
+// Group positioned text items into lines, top to bottom as pdf.js emits them
+function toLines(items: TextItem[]): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+
+  for (const item of items) {
+    const size = roundSize(Math.hypot(item.transform[2], item.transform[3]));
+    const y = item.transform[5];
+    if (current && Math.abs(current.y - y) > Math.max(current.size, size) / 2) {
+      lines.push(current);
+      current = null;
+    }
+    if (!current) {
+      current = { text: '', size: 0, y };
+    }
+    current.text += item.str;
+    if (item.str.trim()) current.size = Math.max(current.size, size);
+    if (item.hasEOL) {
+      lines.push(current);
+      current = null;
+    }
+  }
+
+  if (current) lines.push(current);
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text);
+}
+
+// The font size most of the text is set in
+function bodySize(lines: PdfLine[]): number {
+  const weights = new Map<number, number>();
+  lines.forEach(line => weights.set(line.size, (weights.get(line.size) || 0) + line.text.length));
+  return Array.from(weights).sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+}
+
+function isHeadingCandidate(line: PdfLine, body: number): boolean {
+  return line.size >= body * HEADING_SIZE_RATIO && line.text.length <= 120 && /\p{L}{2}/u.test(line.text);
+}
+
+// Lines of one page as markdown: headings by font size, paragraphs split on vertical gaps
+function toMarkdown(lines: PdfLine[], body: number, levels: Map<number, number>): string {
+  const blocks: string[] = [];
+  let paragraph = '';
+  let previous: PdfLine | null = null;
+
+  const flush = () => {
+    if (paragraph) blocks.push(paragraph);
+    paragraph = '';
+  };
+
+  for (const line of lines) {
+    const level = levels.get(line.size);
+    if (level && isHeadingCandidate(line, body)) {
+      flush();
+      blocks.push(`${'#'.repeat(level)} ${line.text}`);
+      previous = null;
+      continue;
+    }
+
+    if (previous && Math.abs(previous.y - line.y) > Math.max(previous.size, line.size) * 1.8) flush();
+    if (!paragraph) {
+      paragraph = line.text;
+    } else if (/\p{L}-$/u.test(paragraph) && /^\p{Ll}/u.test(line.text)) {
+      // Re-join a word hyphenated across lines
+      paragraph = paragraph.slice(0, -1) + line.text;
+    } else {
+      paragraph += ` ${line.text}`;
+    }
+    previous = line;
+  }
+
+  flush();
+  return blocks.join('\n\n');
+}
+
+/**
+ * Extract the text of a PDF as markdown, one page marker per page so chunks
+ * record the pages they came from. Lines set noticeably larger than the body
+ * text become headings, the largest size `#`, the next `##` and so on.
+ * Throws for PDFs without a text layer (scans), which need OCR first.
+ */
+export async function extractPdfText(data: Uint8Array, fileName: string): Promise<string> {
+  let pages: PdfLine[][];
+  try {
+    // Only the text layer is needed: no font loading, and no warnings about missing font data
+    const pdf = await getDocument({
+      data,
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false,
+      verbosity: 0
+    }).promise;
+    pages = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(toLines(content.items.filter((item): item is TextItem => 'str' in item)));
+      page.cleanup();
+    }
+    await pdf.destroy();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`PDF extraction failed for ${fileName}: ${errorMessage}`);
+  }
+
+  const allLines = pages.flat();
+  const characters = allLines.reduce((sum, line) => sum + line.text.replace(/\s/g, '').length, 0);
+  if (characters < Math.max(pages.length, 1) * MIN_CHARS_PER_PAGE) {
+    throw new Error(
+      `${fileName} has no text layer (${characters} characters on ${pages.length} pages) - it looks like a scanned PDF. ` +
+      'Run it through OCR (for example `ocrmypdf`) and upload the result.'
+    );
+  }
+
+  const body = bodySize(allLines);
+  const headingSizes = Array.from(new Set(allLines.filter(line => isHeadingCandidate(line, body)).map(line => line.size)))
+    .sort((a, b) => b - a)
+    .slice(0, 6);
+  const levels = new Map(headingSizes.map((size, index) => [size, index + 1]));
+
+  return pages
+    .map((lines, index) => `${pageMarker(index + 1)}\n\n${toMarkdown(lines, body, levels)}`)
+    .join('\n\n');
+}
@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseQueryExpansion } from './queryTransform';
+
+describe('parseQueryExpansion', () => {
+  it('accepts a switch or domain-style settings', () => {
+    assert.equal(parseQueryExpansion(undefined), undefined);
+    assert.equal(parseQueryExpansion(true), true);
+    assert.deepEqual(parseQueryExpansion({ paraphrases: 2, hyde: false }), { paraphrases: 2, hyde: false });
+  });
+
+  it('rejects more paraphrases than a domain may configure', () => {
+    assert.throws(() => parseQueryExpansion({ paraphrases: 1000 }), /Invalid queryExpansion - paraphrases/);
+    assert.throws(() => parseQueryExpansion({ paraphrases: 2.5 }), /paraphrases/);
+  });
+
+  it('rejects unknown fields and other types', () => {
+    assert.throws(() => parseQueryExpansion({ paraphrases: 2, rounds: 5 }), /Invalid queryExpansion/);
+    assert.throws(() => parseQueryExpansion('yes'), /Invalid queryExpansion/);
+  });
+});
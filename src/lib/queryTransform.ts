@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { queryExpansionSchema } from './domainSettings';
+import { getModelProvider } from './modelProvider';
+import type { ExpertiseDomain, QueryExpansionSettings } from '@/types';
+
+// Validate an untrusted queryExpansion override (API body, Redis event); throws a readable error
+export function parseQueryExpansion(input: unknown): boolean | QueryExpansionSettings | undefined {
+  if (input === undefined || input === null) return undefined;
+
+  const result = z.union([z.boolean(), queryExpansionSchema]).safeParse(input);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'queryExpansion'}: ${issue.message}`);
+    throw new Error(`Invalid queryExpansion - ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+// Rewrite a vague question into documentation-style search queries
+export async function generateParaphrases(
+  query: string,
+  count: number,
+  domainConfig: ExpertiseDomain,
+  model: string
+): Promise<string[]> {
+  const content = await getModelProvider().complete({
+    model,
+    temperature: 0.3,
+    json: true,
+    messages: [
+      {
+        role: 'system',
+        content: `You rewrite user questions into search queries for the ${domainConfig.name} knowledge base.
+Write ${count} alternative queries that use the terminology of reference documentation (API names, configuration options, feature names) and cover different plausible interpretations of the question.
+Respond with JSON only: {"queries": ["...", "..."]}`
+      },
+      { role: 'user', content: query }
+    ]
+  });
+
+  const parsed = JSON.parse(content || '{}') as { queries?: unknown[] };
+  return (parsed.queries || [])
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .slice(0, count);
+}
+
+// HyDE: write the passage a good answer would be found in, and search with that
+export async function generateHypotheticalPassage(
+  query: string,
+  domainConfig: ExpertiseDomain,
+  model: string
+): Promise<string> {
+  const passage = await getModelProvider().complete({
+    model,
+    temperature: 0.2,
+    maxTokens: 300,
+    messages: [
+      {
+        role: 'system',
+        content: `Write a short passage (under 150 words) in the style of the ${domainConfig.name} documentation that would answer the user's question. Include the API names and configuration options such a page would mention. Do not add commentary.`
+      },
+      { role: 'user', content: query }
+    ]
+  });
+
+  return passage.trim();
+}
+
+/**
+ * Expand a query into the list of texts to retrieve with: the original
+ * question first, then paraphrases and/or a hypothetical answer passage.
+ * Any failure falls back to the original query alone.
+ */
+export async function expandQuery(
+  query: string,
+  domainConfig: ExpertiseDomain,
+  settings: { paraphrases: number; hyde: boolean; model: string }
+): Promise<string[]> {
+  const [paraphrases, passage] = await Promise.all([
+    settings.paraphrases > 0
+      ? generateParaphrases(query, settings.paraphrases, domainConfig, settings.model).catch(error => {
+          console.error('Query paraphrasing failed:', error);
+          return [] as string[];
+        })
+      : Promise.resolve([] as string[]),
+    settings.hyde
+      ? generateHypotheticalPassage(query, domainConfig, settings.model).catch(error => {
+          console.error('HyDE passage generation failed:', error);
+          return '';
+        })
+      : Promise.resolve('')
+  ]);
+
+  const queries = [query, ...paraphrases];
+  if (passage) queries.push(passage);
+
+  // Drop duplicates the model may have produced
+  return Array.from(new Set(queries.map(item => item.trim()))).filter(Boolean);
+}
@@ -1,13 +1,20 @@
 import Redis from 'ioredis';
 import { generateRAGResponse, classifyQuery } from './ai'; // Add classifyQuery import
+import { parseMMRLambda } from './mmr';
+import { parseQueryExpansion } from './queryTransform';
+import { parseSearchFilter } from './searchFilter';
+import type { ConfidenceAssessment, QueryExpansionSettings, SearchFilter, SourceReference } from '@/types';
 
 interface RAGQueryEvent {
   id: string;
   userId: string;
   channelId: string;
   message: string;
-  domain: string;
+  domain: string | string[];    // Several domains are searched together
   timestamp: number;
+  queryExpansion?: boolean | QueryExpansionSettings;
+  filter?: SearchFilter;
+  mmrLambda?: number;           // Diversify results (0-1, lower = more diverse)
 }
 
 interface RAGResponseEvent {
@@ -15,7 +22,8 @@ interface RAGResponseEvent {
   userId: string;
   channelId: string;
   response: string;
-  sources: string[];
+  sources: SourceReference[];   // Each labeled with the domain it came from
+  confidence?: ConfidenceAssessment; // Retrieval confidence (absent for canned responses)
   success: boolean;
   timestamp: number;
 }
@@ -293,11 +301,16 @@ Ask me specific questions about:
     };
   }
 
+  // Canned responses all come from the Inngest docs
+  private toInngestSources(sources: string[]): SourceReference[] {
+    return sources.map(source => ({ source, domain: 'inngest' }));
+  }
+
   private async processRAGQuery(event: RAGQueryEvent): Promise<void> {
     try {
       // 🤖 USE AI TO CLASSIFY QUERY (cheap classification call)
       console.log(`🔍 Classifying query: ${event.id.substring(0, 8)}...`);
-      const queryType = await classifyQuery(event.message);
+      const queryType = await classifyQuery(event.message, Array.isArray(event.domain) ? event.domain[0] : event.domain);
       
       if (queryType === 'generic') {
         console.log(`🔄 Generic query detected: ${event.id.substring(0, 8)}... (skipping expensive AI)`);
@@ -309,7 +322,7 @@ Ask me specific questions about:
           userId: event.userId,
           channelId: event.channelId,
           response: response,
-          sources: sources,
+          sources: this.toInngestSources(sources),
           success: true,
           timestamp: Date.now()
         };
@@ -329,7 +342,7 @@ Ask me specific questions about:
           userId: event.userId,
           channelId: event.channelId,
           response: cachedResponse.response,
-          sources: cachedResponse.sources,
+          sources: this.toInngestSources(cachedResponse.sources),
           success: true,
           timestamp: Date.now()
         };
@@ -341,15 +354,19 @@ Ask me specific questions about:
 
       // 🎯 USE EXPENSIVE AI FOR UNIQUE TECHNICAL QUESTIONS
       console.log(`🧠 Technical query - full AI processing: ${event.id.substring(0, 8)}...`);
-      const { completion, sources } = await generateRAGResponse(
+      const { completion, sources, confidence } = await generateRAGResponse(
         event.message, 
-        event.domain || 'inngest'
+        event.domain || 'inngest',
+        {
+          queryExpansion: parseQueryExpansion(event.queryExpansion),
+          filter: parseSearchFilter(event.filter),
+          mmrLambda: parseMMRLambda(event.mmrLambda)
+        }
       );
 
       // Convert streaming response to text
       let fullResponse = '';
-      for await (const chunk of completion) {
-        const content = chunk.choices[0]?.delta?.content || '';
+      for await (const content of completion) {
         fullResponse += content;
       }
 
@@ -360,6 +377,7 @@ Ask me specific questions about:
         channelId: event.channelId,
         response: fullResponse,
         sources: sources,
+        confidence,
         success: true,
         timestamp: Date.now()
       };
@@ -0,0 +1,165 @@
+import { getRerankConfig } from './config';
+import { tokenize } from './lexicalIndex';
+import { getModelForTask, getModelProvider } from './modelProvider';
+import type { RerankProvider, VectorSearchResult } from '@/types';
+
+/**
+ * A reranker scores every candidate against the query; higher is better.
+ * Scores only need to be comparable within one call.
+ */
+export interface Reranker {
+  readonly name: RerankProvider;
+  score(query: string, candidates: VectorSearchResult[]): Promise<number[]>;
+}
+
+/**
+ * Deterministic scorer: share of the query's tokens found in the candidate.
+ * Needs no network access, which makes it the reranker for offline tests.
+ */
+export class LexicalOverlapReranker implements Reranker {
+  readonly name = 'lexical' as const;
+
+  async score(query: string, candidates: VectorSearchResult[]): Promise<number[]> {
+    const queryTokens = new Set(tokenize(query));
+    if (queryTokens.size === 0) return candidates.map(() => 0);
+
+    return candidates.map(candidate => {
+      const candidateTokens = new Set(tokenize(candidate.content));
+      let overlap = 0;
+      queryTokens.forEach(token => {
+        if (candidateTokens.has(token)) overlap++;
+      });
+      return overlap / queryTokens.size;
+    });
+  }
+}
+
+/**
+ * Asks a chat model to grade every passage from 0 to 10 in a single call.
+ */
+export class LLMJudgeReranker implements Reranker {
+  readonly name = 'llm' as const;
+
+  constructor(private model: string, private maxPassageChars = 1000) {}
+
+  async score(query: string, candidates: VectorSearchResult[]): Promise<number[]> {
+    const passages = candidates
+      .map((candidate, index) => `[${index}] ${candidate.content.substring(0, this.maxPassageChars)}`)
+      .join('\n\n');
+
+    const content = await getModelProvider().complete({
+      model: this.model,
+      temperature: 0,
+      json: true,
+      messages: [
+        {
+          role: 'system',
+          content: `You grade how useful documentation passages are for answering a question.
+Give every passage a score from 0 (irrelevant) to 10 (directly answers the question).
+Respond with JSON only: {"scores": [<score for passage 0>, <score for passage 1>, ...]}`
+        },
+        {
+          role: 'user',
+          content: `QUESTION: ${query}\n\nPASSAGES:\n${passages}`
+        }
+      ]
+    });
+
+    const parsed = JSON.parse(content || '{}') as { scores?: unknown[] };
+    if (!Array.isArray(parsed.scores) || parsed.scores.length !== candidates.length) {
+      throw new Error(`LLM judge returned ${parsed.scores?.length ?? 0} scores for ${candidates.length} passages`);
+    }
+
+    return parsed.scores.map(score => Number(score) / 10 || 0);
+  }
+}
+
+/**
+ * Cross-encoder served behind a Cohere/Jina-style `/rerank` endpoint
+ * (also offered by self-hosted servers such as Infinity or LocalAI).
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name = 'cross-encoder' as const;
+
+  constructor(private apiUrl: string, private model: string, private apiKey?: string) {}
+
+  async score(query: string, candidates: VectorSearchResult[]): Promise<number[]> {
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        query,
+        documents: candidates.map(candidate => candidate.content),
+        top_n: candidates.length
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Rerank request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { results?: Array<{ index: number; relevance_score: number }> };
+    const scores = candidates.map(() => 0);
+    data.results?.forEach(result => {
+      scores[result.index] = result.relevance_score;
+    });
+    return scores;
+  }
+}
+
+export function getReranker(provider: RerankProvider): Reranker {
+  const config = getRerankConfig();
+
+  switch (provider) {
+    case 'lexical':
+      return new LexicalOverlapReranker();
+    case 'llm':
+      return new LLMJudgeReranker(config.llmModel || getModelForTask('classify'));
+    case 'cross-encoder':
+      if (!config.apiUrl) {
+        throw new Error('RERANK_API_URL environment variable is required for the cross-encoder reranker');
+      }
+      return new CrossEncoderReranker(config.apiUrl, config.crossEncoderModel, config.apiKey);
+    default:
+      throw new Error(`Unknown rerank provider: ${provider}`);
+  }
+}
+
+/**
+ * Re-score candidates and keep the best `topN`. Reranker scores are exposed
+ * in each result's metadata; if the reranker fails, retrieval order is kept.
+ */
+export async function rerankResults(
+  query: string,
+  candidates: VectorSearchResult[],
+  provider: RerankProvider,
+  topN: number
+): Promise<VectorSearchResult[]> {
+  if (candidates.length === 0) return candidates;
+
+  try {
+    const reranker = getReranker(provider);
+    const scores = await reranker.score(query, candidates);
+
+    return candidates
+      .map((candidate, index) => ({
+        ...candidate,
+        metadata: {
+          ...candidate.metadata,
+          rerankScore: scores[index],
+          rerankProvider: reranker.name,
+          retrievalRank: index + 1
+        }
+      }))
+      .sort((a, b) => (b.metadata.rerankScore as number) - (a.metadata.rerankScore as number))
+      .slice(0, topN);
+
+  } catch (error) {
+    console.error(`Reranking with '${provider}' failed, keeping retrieval order:`, error);
+    return candidates.slice(0, topN);
+  }
+}
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isAllowedByRobots, parseRobotsTxt } from './robotsTxt';
+
+const USER_AGENT = 'docs-crawler/1.0';
+
+describe('parseRobotsTxt', () => {
+  it('uses the group naming the product token exactly, case-insensitively', () => {
+    const robots = parseRobotsTxt([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: Docs-Crawler',
+      'Disallow: /private/',
+      'Crawl-delay: 2'
+    ].join('\n'), USER_AGENT);
+
+    assert.deepEqual(robots.rules, [{ allow: false, pattern: '/private/' }]);
+    assert.equal(robots.crawlDelayMs, 2000);
+  });
+
+  it('does not apply a group whose agent is only a substring of the product token', () => {
+    const robots = parseRobotsTxt([
+      'User-agent: crawler',
+      'Disallow: /',
+      '',
+      'User-agent: *',
+      'Disallow: /tmp/'
+    ].join('\n'), USER_AGENT);
+
+    assert.deepEqual(robots.rules, [{ allow: false, pattern: '/tmp/' }]);
+  });
+
+  it('allows everything when no group applies and collects sitemaps from anywhere', () => {
+    const robots = parseRobotsTxt([
+      'Sitemap: https://example.com/sitemap.xml',
+      'User-agent: otherbot',
+      'Disallow: /',
+      'Sitemap: https://example.com/docs/sitemap.xml'
+    ].join('\n'), USER_AGENT);
+
+    assert.deepEqual(robots.rules, []);
+    assert.deepEqual(robots.sitemaps, ['https://example.com/sitemap.xml', 'https://example.com/docs/sitemap.xml']);
+  });
+});
+
+describe('isAllowedByRobots', () => {
+  const robots = parseRobotsTxt([
+    'User-agent: *',
+    'Disallow: /docs/',
+    'Allow: /docs/public/',
+    'Disallow: /*.pdf$'
+  ].join('\n'), USER_AGENT);
+
+  it('lets the longest matching rule decide', () => {
+    assert.equal(isAllowedByRobots(robots, 'https://example.com/docs/internal'), false);
+    assert.equal(isAllowedByRobots(robots, 'https://example.com/docs/public/page'), true);
+    assert.equal(isAllowedByRobots(robots, 'https://example.com/blog/'), true);
+  });
+
+  it('supports wildcards and end anchors', () => {
+    assert.equal(isAllowedByRobots(robots, 'https://example.com/files/guide.pdf'), false);
+    assert.equal(isAllowedByRobots(robots, 'https://example.com/files/guide.pdf?download=1'), true);
+  });
+});
@@ -0,0 +1,97 @@
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;                  // Path pattern with `*` wildcards and an optional trailing `$`
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+  sitemaps: string[];               // Sitemap lines apply to every user agent
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parse robots.txt and keep the group that applies to `userAgent`: the groups
+ * naming its product token exactly (case-insensitive), else the `*` group.
+ * Unknown directives are ignored, as the spec requires.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+    if (field === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue;
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay' && Number(value) >= 0) {
+      current.crawlDelayMs = Number(value) * 1000;
+    }
+  }
+
+  const token = userAgent.split('/')[0].trim().toLowerCase();
+  const named = groups.filter(group => group.agents.includes(token));
+  const matching = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+
+  return {
+    rules: matching.flatMap(group => group.rules),
+    crawlDelayMs: matching.find(group => group.crawlDelayMs !== undefined)?.crawlDelayMs,
+    sitemaps
+  };
+}
+
+// The longest matching rule decides; Allow wins a tie, and no match means allowed
+export function isAllowedByRobots(robots: RobotsRules, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const target = pathname + search;
+
+  let decision: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (!patternToRegExp(rule.pattern).test(target)) continue;
+    if (
+      !decision ||
+      rule.pattern.length > decision.pattern.length ||
+      (rule.pattern.length === decision.pattern.length && rule.allow)
+    ) {
+      decision = rule;
+    }
+  }
+  return decision ? decision.allow : true;
+}
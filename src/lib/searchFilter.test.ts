@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { matchesSearchFilter, matchesSourcePrefix } from './searchFilter';
+
+describe('matchesSourcePrefix', () => {
+  const filter = { sourcePrefix: 'https://www.inngest.com/docs/' };
+
+  it('matches the source', () => {
+    assert.equal(matchesSourcePrefix({ source: 'https://www.inngest.com/docs/functions' }, filter), true);
+    assert.equal(matchesSourcePrefix({ source: 'runbooks/deploy.md' }, filter), false);
+  });
+
+  it('matches the page URL of a chunk from a bundled llms-full.txt', () => {
+    const metadata = {
+      source: 'https://www.inngest.com/llms-full.txt',
+      pageUrl: 'https://www.inngest.com/docs/guides/concurrency',
+      type: 'documentation'
+    };
+    assert.equal(matchesSourcePrefix(metadata, filter), true);
+    assert.equal(matchesSearchFilter(metadata, { ...filter, type: 'documentation' }), true);
+    assert.equal(matchesSourcePrefix({ ...metadata, pageUrl: 'https://www.inngest.com/blog/launch' }, filter), false);
+  });
+});
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { matchesFilter, type MetadataFilter, type VectorMetadata } from './vectorStore';
+import type { SearchFilter } from '@/types';
+
+const stringOrList = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+
+export const searchFilterSchema = z.object({
+  type: z.union([
+    z.enum(['documentation', 'custom', 'manual']),
+    z.array(z.enum(['documentation', 'custom', 'manual'])).min(1)
+  ]).optional(),
+  source: stringOrList.optional(),
+  sourcePrefix: stringOrList.optional(),
+  section: stringOrList.optional(),
+  subsection: stringOrList.optional(),
+  operationId: stringOrList.optional(),
+  tag: stringOrList.optional()
+}).strict();
+
+// Validate an untrusted filter (API body, Redis event); throws a readable error
+export function parseSearchFilter(input: unknown): SearchFilter | undefined {
+  if (input === undefined || input === null) return undefined;
+
+  const result = searchFilterSchema.safeParse(input);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'filter'}: ${issue.message}`);
+    throw new Error(`Invalid filter - ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+function toList<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Translate the exact-match part of a filter into the store's metadata filter
+ * syntax. Source prefixes cannot be expressed there and are applied by
+ * matchesSourcePrefix after retrieval.
+ */
+export function toMetadataFilter(filter?: SearchFilter): MetadataFilter | undefined {
+  if (!filter) return undefined;
+
+  const metadataFilter: MetadataFilter = {};
+  if (filter.type) metadataFilter.type = { $in: toList(filter.type) };
+  if (filter.source) metadataFilter.source = { $in: toList(filter.source) };
+  if (filter.section) metadataFilter.section = { $in: toList(filter.section) };
+  if (filter.subsection) metadataFilter.subsection = { $in: toList(filter.subsection) };
+  if (filter.operationId) metadataFilter.operationId = { $in: toList(filter.operationId) };
+  if (filter.tag) metadataFilter.tags = { $in: toList(filter.tag) };
+
+  return Object.keys(metadataFilter).length > 0 ? metadataFilter : undefined;
+}
+
+// The source or, for chunks of a bundled page (llms-full.txt), the page's own URL
+export function matchesSourcePrefix(metadata: VectorMetadata, filter?: SearchFilter): boolean {
+  if (!filter?.sourcePrefix) return true;
+  const locations = [metadata.source, metadata.pageUrl].filter((value): value is string => typeof value === 'string');
+  return toList(filter.sourcePrefix).some(prefix => locations.some(location => location.startsWith(prefix)));
+}
+
+// Full check of a record against a filter, for results not fetched through a filtered query
+export function matchesSearchFilter(metadata: VectorMetadata, filter?: SearchFilter): boolean {
+  const metadataFilter = toMetadataFilter(filter);
+  return (!metadataFilter || matchesFilter(metadata, metadataFilter)) && matchesSourcePrefix(metadata, filter);
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { addDomain, TECH_DOMAINS } from './config';
+import { FakeProvider, setModelProvider } from './modelProvider';
+import type { ExpertiseDomain } from '@/types';
+
+export interface TestEnvironment {
+  dataDirectory: string;
+  provider: FakeProvider;
+  restore(): Promise<void>;
+}
+
+/**
+ * Offline setup shared by the tests: a temporary data directory for the local
+ * vector store, keyword index and crawl state, no embedding cache, the fake
+ * model provider and the given domains. `restore` puts `process.env` back,
+ * removes the domains and deletes the directory.
+ */
+export async function setUpTestEnvironment(
+  name: string,
+  {
+    env = {},
+    domains = {},
+    provider = new FakeProvider([], 64)
+  }: {
+    env?: Record<string, string>;
+    domains?: Record<string, Partial<ExpertiseDomain>>;
+    provider?: FakeProvider;
+  } = {}
+): Promise<TestEnvironment> {
+  const dataDirectory = await fs.mkdtemp(path.join(os.tmpdir(), `${name}-`));
+  const savedEnv = { ...process.env };
+
+  Object.assign(process.env, {
+    VECTOR_STORE: 'local',
+    LOCAL_VECTOR_STORE_PATH: path.join(dataDirectory, 'vector-store'),
+    LEXICAL_INDEX_PATH: path.join(dataDirectory, 'lexical-index'),
+    CRAWL_STATE_PATH: path.join(dataDirectory, 'crawl-state'),
+    EMBEDDING_CACHE: 'none',
+    MODEL_PROVIDER: 'fake',
+    ...env
+  });
+  setModelProvider(provider);
+
+  Object.entries(domains).forEach(([domain, config]) => addDomain(domain, {
+    name: domain,
+    namespace: domain,
+    systemPrompt: 'Answer from the documentation.',
+    source: 'manual',
+    isActive: true,
+    ...config
+  }));
+
+  return {
+    dataDirectory,
+    provider,
+    restore: async () => {
+      Object.keys(domains).forEach(domain => delete TECH_DOMAINS[domain]);
+      Object.keys(process.env).forEach(key => {
+        if (!(key in savedEnv)) delete process.env[key];
+      });
+      Object.assign(process.env, savedEnv);
+      await fs.rm(dataDirectory, { recursive: true, force: true });
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { LocalVectorStore } from './vectorStore';
+
+const NAMESPACE = 'shared-docs';
+
+function record(id: string) {
+  return { id, values: [1, 0, 0], metadata: { source: id } };
+}
+
+// Two stores on one directory stand for two processes, e.g. `next dev` and `npm run ingest`
+describe('LocalVectorStore shared between processes', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vector-store-test-'));
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('sees records another process wrote after its first read', async () => {
+    const server = new LocalVectorStore(directory);
+    const ingest = new LocalVectorStore(directory);
+
+    assert.deepEqual(await server.list(NAMESPACE), []);
+    await ingest.upsert(NAMESPACE, [record('ingested')]);
+    assert.deepEqual(await server.list(NAMESPACE), ['ingested']);
+  });
+
+  it('keeps the other process\'s records when it writes', async () => {
+    const server = new LocalVectorStore(directory);
+    const ingest = new LocalVectorStore(directory);
+
+    await server.list(NAMESPACE);
+    await ingest.upsert(NAMESPACE, [record('from-ingest')]);
+    await server.upsert(NAMESPACE, [record('from-server')]);
+    await server.delete(NAMESPACE, ['ingested']);
+
+    assert.deepEqual((await ingest.list(NAMESPACE)).sort(), ['from-ingest', 'from-server']);
+  });
+});
@@ -0,0 +1,346 @@
+import { Pinecone } from '@pinecone-database/pinecone';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getPineconeConfig, getVectorStoreConfig } from './config';
+
+// Metadata values supported by every backend (mirrors Pinecone's metadata types)
+export type MetadataValue = string | number | boolean | string[];
+export type VectorMetadata = Record<string, MetadataValue>;
+
+type FilterPrimitive = string | number | boolean;
+
+export type FieldCondition =
+  | FilterPrimitive
+  | {
+      $eq?: FilterPrimitive;
+      $ne?: FilterPrimitive;
+      $gt?: number;
+      $gte?: number;
+      $lt?: number;
+      $lte?: number;
+      $in?: FilterPrimitive[];
+      $nin?: FilterPrimitive[];
+      $exists?: boolean;
+    };
+
+// Pinecone-style metadata filter, e.g. { type: { $eq: 'custom' }, $or: [...] }
+export interface MetadataFilter {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  [field: string]: FieldCondition | MetadataFilter[] | undefined;
+}
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  values?: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: MetadataFilter;
+  includeValues?: boolean;
+}
+
+export interface NamespaceStats {
+  namespace: string;
+  recordCount: number;
+  dimension?: number;
+}
+
+export interface VectorStore {
+  readonly name: string;
+  upsert(namespace: string, records: VectorRecord[]): Promise<void>;
+  query(namespace: string, query: VectorQuery): Promise<VectorMatch[]>;
+  fetch(namespace: string, ids: string[]): Promise<VectorRecord[]>;
+  delete(namespace: string, ids: string[]): Promise<void>;
+  list(namespace: string, options?: { prefix?: string }): Promise<string[]>;
+  stats(namespace: string): Promise<NamespaceStats>;
+}
+
+/**
+ * Pinecone-backed store. All operations are scoped to a namespace of the
+ * index named by PINECONE_INDEX_NAME.
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly name = 'pinecone';
+  private index: ReturnType<Pinecone['index']>;
+
+  constructor() {
+    const config = getPineconeConfig();
+    this.index = new Pinecone({ apiKey: config.apiKey }).index(config.indexName);
+  }
+
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.index.namespace(namespace).upsert(records);
+  }
+
+  async query(namespace: string, query: VectorQuery): Promise<VectorMatch[]> {
+    const response = await this.index.namespace(namespace).query({
+      vector: query.vector,
+      topK: query.topK,
+      filter: query.filter,
+      includeMetadata: true,
+      includeValues: query.includeValues ?? false
+    });
+
+    return (response.matches || []).map(match => ({
+      id: match.id,
+      score: match.score || 0,
+      values: query.includeValues ? match.values : undefined,
+      metadata: (match.metadata || {}) as VectorMetadata
+    }));
+  }
+
+  async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    if (ids.length === 0) return [];
+    const response = await this.index.namespace(namespace).fetch(ids);
+    return Object.values(response.records || {}).map(record => ({
+      id: record.id,
+      values: record.values || [],
+      metadata: (record.metadata || {}) as VectorMetadata
+    }));
+  }
+
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    // Pinecone limits deletes to 1000 ids per request
+    for (let i = 0; i < ids.length; i += 1000) {
+      await this.index.namespace(namespace).deleteMany(ids.slice(i, i + 1000));
+    }
+  }
+
+  // Note: listing by id prefix is only supported on serverless indexes
+  async list(namespace: string, options: { prefix?: string } = {}): Promise<string[]> {
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+
+    do {
+      const page = await this.index.namespace(namespace).listPaginated({
+        prefix: options.prefix,
+        paginationToken
+      });
+      page.vectors?.forEach(vector => {
+        if (vector.id) ids.push(vector.id);
+      });
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    return ids;
+  }
+
+  async stats(namespace: string): Promise<NamespaceStats> {
+    const description = await this.index.describeIndexStats();
+    return {
+      namespace,
+      recordCount: description.namespaces?.[namespace]?.recordCount || 0,
+      dimension: description.dimension
+    };
+  }
+}
+
+interface LocalNamespaceFile {
+  dimension?: number;
+  records: Record<string, { values: number[]; metadata: VectorMetadata }>;
+}
+
+/**
+ * File-backed store for development and CI. Each namespace is a JSON file in
+ * the configured directory and queries are brute-force cosine similarity, so
+ * it is only meant for small corpora. A namespace is reloaded whenever its
+ * file changes and every write applies to the file's current contents, so
+ * servers, workers and `npm run ingest` can share the directory.
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly name = 'local';
+  private namespaces = new Map<string, { version: string; data: LocalNamespaceFile }>();
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private directory: string) {}
+
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    await this.write(namespace, data => {
+      for (const record of records) {
+        if (data.dimension && record.values.length !== data.dimension) {
+          throw new Error(
+            `Vector dimension ${record.values.length} does not match namespace dimension ${data.dimension}`
+          );
+        }
+        data.dimension = record.values.length;
+        data.records[record.id] = { values: record.values, metadata: record.metadata };
+      }
+    });
+  }
+
+  async query(namespace: string, query: VectorQuery): Promise<VectorMatch[]> {
+    const data = await this.load(namespace);
+
+    return Object.entries(data.records)
+      .filter(([, record]) => !query.filter || matchesFilter(record.metadata, query.filter))
+      .map(([id, record]) => ({
+        id,
+        score: cosineSimilarity(query.vector, record.values),
+        values: query.includeValues ? record.values : undefined,
+        metadata: record.metadata
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, query.topK);
+  }
+
+  async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    const data = await this.load(namespace);
+    return ids
+      .filter(id => data.records[id])
+      .map(id => ({ id, ...data.records[id] }));
+  }
+
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.write(namespace, data => {
+      ids.forEach(id => delete data.records[id]);
+    });
+  }
+
+  async list(namespace: string, options: { prefix?: string } = {}): Promise<string[]> {
+    const data = await this.load(namespace);
+    return Object.keys(data.records).filter(id => !options.prefix || id.startsWith(options.prefix));
+  }
+
+  async stats(namespace: string): Promise<NamespaceStats> {
+    const data = await this.load(namespace);
+    return {
+      namespace,
+      recordCount: Object.keys(data.records).length,
+      dimension: data.dimension
+    };
+  }
+
+  private filePath(namespace: string): string {
+    return path.join(this.directory, `${namespace.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  // Changes whenever any process rewrites the namespace file
+  private async version(namespace: string): Promise<string> {
+    try {
+      const stats = await fs.stat(this.filePath(namespace));
+      return `${stats.mtimeMs}:${stats.size}`;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return 'missing';
+    }
+  }
+
+  private async load(namespace: string): Promise<LocalNamespaceFile> {
+    const version = await this.version(namespace);
+    const cached = this.namespaces.get(namespace);
+    if (cached?.version === version) return cached.data;
+
+    let data: LocalNamespaceFile = { records: {} };
+    try {
+      data = JSON.parse(await fs.readFile(this.filePath(namespace), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    this.namespaces.set(namespace, { version, data });
+    return data;
+  }
+
+  // Serialize writes per namespace, apply each to the file's current contents and swap files atomically
+  private async write(namespace: string, change: (data: LocalNamespaceFile) => void): Promise<void> {
+    const previous = this.writes.get(namespace) || Promise.resolve();
+    const next = previous.then(async () => {
+      const data = await this.load(namespace);
+      try {
+        change(data);
+      } catch (error) {
+        // Drop the partly changed copy
+        this.namespaces.delete(namespace);
+        throw error;
+      }
+
+      const file = this.filePath(namespace);
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(data));
+      await fs.rename(`${file}.tmp`, file);
+      this.namespaces.set(namespace, { version: await this.version(namespace), data });
+    });
+    this.writes.set(namespace, next.catch(() => undefined));
+    await next;
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Evaluate a Pinecone-style filter against a record's metadata
+export function matchesFilter(metadata: VectorMetadata, filter: MetadataFilter): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition === undefined) return true;
+    if (key === '$and') return (condition as MetadataFilter[]).every(sub => matchesFilter(metadata, sub));
+    if (key === '$or') return (condition as MetadataFilter[]).some(sub => matchesFilter(metadata, sub));
+    return matchesCondition(metadata[key], condition as FieldCondition);
+  });
+}
+
+function matchesCondition(value: MetadataValue | undefined, condition: FieldCondition): boolean {
+  if (typeof condition !== 'object') {
+    return equals(value, condition);
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq': return equals(value, operand as FilterPrimitive);
+      case '$ne': return !equals(value, operand as FilterPrimitive);
+      case '$gt': return typeof value === 'number' && value > (operand as number);
+      case '$gte': return typeof value === 'number' && value >= (operand as number);
+      case '$lt': return typeof value === 'number' && value < (operand as number);
+      case '$lte': return typeof value === 'number' && value <= (operand as number);
+      case '$in': return (operand as FilterPrimitive[]).some(item => equals(value, item));
+      case '$nin': return !(operand as FilterPrimitive[]).some(item => equals(value, item));
+      case '$exists': return (value !== undefined) === operand;
+      default: throw new Error(`Unsupported filter operator: ${operator}`);
+    }
+  });
+}
+
+// List-valued metadata matches when any element matches (same as Pinecone)
+function equals(value: MetadataValue | undefined, operand: FilterPrimitive): boolean {
+  return Array.isArray(value) ? value.includes(operand as string) : value === operand;
+}
+
+// Lazy initialization of the configured store
+let vectorStore: VectorStore | null = null;
+
+export function getVectorStore(): VectorStore {
+  if (!vectorStore) {
+    const config = getVectorStoreConfig();
+    vectorStore = config.provider === 'local'
+      ? new LocalVectorStore(config.localPath)
+      : new PineconeVectorStore();
+  }
+  return vectorStore;
+}
@@ -2,7 +2,7 @@
 
 export interface ExpertiseDomain {
     name: string;
-    namespace: string;           // Pinecone namespace
+    namespace: string;           // Vector store namespace
     systemPrompt: string;
     source: string;             // URL or 'manual'
     officialDocUrls?: string[]; // List of official documentation URLs to crawl
@@ -12,6 +12,159 @@ export interface ExpertiseDomain {
     description?: string;
     color?: string;
     icon?: string;
+    retrieval?: RetrievalSettings;
+    generation?: GenerationSettings;
+    chunking?: ChunkingSettings;
+    crawl?: CrawlSettings;        // How officialDocUrls are crawled
+    confidence?: ConfidenceSettings;
+    models?: Partial<Record<ModelTask, string>>; // Per-task model overrides
+  }
+  
+  // Per-domain overrides of how answers are generated
+  export interface GenerationSettings {
+    temperature?: number;
+    maxTokens?: number;         // Answer length cap (defaults to the model's budget)
+    contextTokens?: number;     // Documentation token budget (defaults to the model's budget)
+  }
+  
+  // heading: ## / ### sections packed by paragraph; all-headings: every heading level starts a section;
+  // sliding-window / token: fixed-size overlapping windows within ## / ### sections;
+  // semantic: cut where the embeddings of neighbouring sentences diverge; paragraph: former name of all-headings
+  export type ChunkingStrategy = 'heading' | 'all-headings' | 'sliding-window' | 'token' | 'semantic' | 'paragraph';
+  
+  export interface ChunkingSettings {
+    strategy?: ChunkingStrategy;
+    maxChunkSize?: number;        // Characters
+    chunkOverlap?: number;        // Characters shared by consecutive sliding windows
+    minChunkSize?: number;        // Smaller chunks are dropped
+    maxChunkTokens?: number;      // Window size of the token strategy
+    chunkOverlapTokens?: number;
+    semanticThreshold?: number;   // Neighbouring sentences less similar than this start a new chunk
+    semanticMinChunkSize?: number; // Characters a semantic chunk holds before it may end
+  }
+  
+  // How the crawler walks a domain's officialDocUrls
+  export interface CrawlSettings {
+    pathPrefixes?: string[];      // Paths to stay within (e.g. '/docs/'); defaults to the start URLs' paths
+    maxPages?: number;
+    maxDepth?: number;            // Links followed away from a start or sitemap URL
+    requestDelayMs?: number;      // Pause between requests; a longer robots.txt Crawl-delay wins
+    sitemap?: boolean;            // Also start from sitemap.xml and robots.txt Sitemap lines
+  }
+  
+  // How sure retrieval is that the documentation answers the question
+  export type ConfidenceLevel = 'high' | 'medium' | 'low' | 'none';
+  
+  // What to do when confidence is low: answer anyway, answer with a warning, or decline
+  export type ConfidencePolicy = 'answer' | 'warn' | 'refuse';
+  
+  export interface ConfidenceSettings {
+    policy?: ConfidencePolicy;  // Applied to 'low' and 'none' confidence
+    high?: number;              // Minimum confidence score for 'high'
+    medium?: number;            // Minimum confidence score for 'medium'
+  }
+  
+  export interface ConfidenceAssessment {
+    level: ConfidenceLevel;
+    score: number;              // 0-1 blend of the signals below
+    topScore: number;           // Best vector similarity
+    scoreGap: number;           // Best similarity minus the mean of the others
+    coverage: number;           // Share of the question's terms found in the context
+    action: ConfidencePolicy;   // What the response did about it
+  }
+  
+  // What a chat model is used for; each task can run on a different model
+  export type ModelTask = 'classify' | 'answer' | 'rewrite';
+  
+  export type ModelProviderName = 'openai' | 'openai-compatible' | 'fake';
+  
+  export interface HybridSearchSettings {
+    enabled?: boolean;
+    vectorWeight?: number;      // Weight of the embedding ranking in rank fusion
+    lexicalWeight?: number;     // Weight of the BM25 ranking in rank fusion
+    rrfK?: number;              // Reciprocal rank fusion constant
+    candidates?: number;        // Results taken from each ranking before fusion
+  }
+  
+  export type RerankProvider = 'llm' | 'cross-encoder' | 'lexical';
+  
+  export interface RerankSettings {
+    enabled?: boolean;
+    provider?: RerankProvider;
+    candidates?: number;        // How many results to over-fetch for reranking
+    topN?: number;              // How many reranked results reach the prompt
+  }
+  
+  export interface QueryExpansionSettings {
+    enabled?: boolean;
+    paraphrases?: number;       // Number of rewritten queries (0 disables)
+    hyde?: boolean;             // Also search with a hypothetical answer passage
+  }
+  
+  // Maximal marginal relevance: trade relevance against redundancy among results
+  export interface MMRSettings {
+    enabled?: boolean;
+    lambda?: number;            // 1 = relevance only, 0 = diversity only
+    candidates?: number;        // Results fetched to choose the diverse set from
+  }
+  
+  // Small-to-big retrieval: widen matched chunks with the chunks around them
+  export interface NeighborExpansionSettings {
+    enabled?: boolean;
+    mode?: 'siblings' | 'parent'; // Adjacent chunks, or the whole subsection
+    window?: number;            // Siblings fetched on each side of a match
+    maxChunks?: number;         // Cap on chunks merged into one result
+  }
+  
+  // How a domain takes part when several domains are searched together
+  export interface FederationSettings {
+    weight?: number;            // Multiplies the domain's normalized scores
+    quota?: number;             // Max results the domain may contribute
+  }
+  
+  // Per-domain overrides of the global retrieval defaults
+  export interface RetrievalSettings {
+    topK?: number;              // Results handed to the answer model
+    minScore?: number;          // Minimum vector similarity for a match
+    hybrid?: HybridSearchSettings;
+    rerank?: RerankSettings;
+    queryExpansion?: QueryExpansionSettings;
+    mmr?: MMRSettings;
+    neighbors?: NeighborExpansionSettings;
+    federation?: FederationSettings;
+  }
+  
+  // Restricts retrieval by chunk metadata; list values match any entry
+  export interface SearchFilter {
+    type?: DocumentType | DocumentType[];
+    source?: string | string[];
+    sourcePrefix?: string | string[];  // e.g. 'https://www.inngest.com/docs/' or 'runbooks/'; also matches pageUrl
+    section?: string | string[];
+    subsection?: string | string[];
+    operationId?: string | string[];   // OpenAPI operations
+    tag?: string | string[];           // OpenAPI tags
+  }
+  
+  // Per-request overrides of a domain's retrieval settings
+  export interface RAGQueryOptions {
+    queryExpansion?: boolean | QueryExpansionSettings;
+    filter?: SearchFilter;
+    mmrLambda?: number;         // Enables MMR with this lambda for the request
+    domainQuotas?: Record<string, number>; // Per-domain result caps for multi-domain queries
+  }
+  
+  export interface ContextBudget {
+    contextTokens: number;      // Max tokens of retrieved documentation in the prompt
+    answerTokens: number;       // Max tokens of the generated answer
+  }
+  
+  // What the context builder packed into the prompt
+  export interface ContextUsage {
+    chunks: number;             // Chunks included (whole or truncated)
+    tokens: number;             // Tokens of documentation context
+    budget: number;             // Context token budget for the answer model
+    truncated: number;          // Chunks cut at a paragraph boundary to fit
+    dropped: number;            // Results left out (duplicate or over budget)
   }
   
   export interface ChatMessage {
@@ -20,7 +173,34 @@ export interface ExpertiseDomain {
     content: string;
     domain: string;
     timestamp: Date;
-    sources?: string[];
+    sources?: SourceReference[];
+  }
+  
+  // A citation shown with an answer, labeled with the domain it came from
+  export interface SourceReference {
+    source: string;             // URL or readable reference
+    domain: string;
+    title?: string;             // Page title when the source is a known documentation page
+    headings?: string[];        // Heading breadcrumb of the best matching chunk
+    anchor?: string;            // Fragment of that heading on the page
+    pages?: string;             // Cited pages of a paged document, e.g. 'p. 12' or 'pp. 3, 12–13'
+  }
+  
+  export type DocumentType = 'documentation' | 'custom' | 'manual';
+  
+  // The page a chunk was cut from, when one source file bundles many pages (llms-full.txt)
+  export interface DocumentPage {
+    url: string;                // Canonical page URL, the chunk's primary citation
+    title: string;
+    description?: string;       // What the llms.txt index says the page covers
+    section?: string;           // The llms.txt section listing the page, e.g. 'Guides'
+  }
+  
+  // A fetched or uploaded document before chunking
+  export interface SourceDocument {
+    content: string;
+    source: string;             // File name or URL the chunks cite
+    page?: DocumentPage;        // For content without page markers of its own
   }
   
   export interface DocumentChunk {
@@ -29,35 +209,61 @@ export interface ExpertiseDomain {
       source: string;
       section?: string;
       subsection?: string;
-      type: 'documentation' | 'custom' | 'manual';
+      type: DocumentType;
       chunkIndex: number;
       domain: string;
+      headings?: string[];        // Heading path h1 → h6 (page title first) at the start of the chunk
+      anchor?: string;            // Slug of the deepest heading, e.g. 'concurrency'
+      sectionAnchor?: string;     // Slug of the heading that starts the chunk's section (unique in its document)
+      languages?: string[];       // Languages of the fenced code blocks in the chunk
+      pageUrl?: string;
+      pageTitle?: string;
+      pageDescription?: string;
+      pageSection?: string;
+      pageStart?: number;         // Pages of a paged document (PDF) the chunk spans
+      pageEnd?: number;
+      operationId?: string;       // OpenAPI operation the chunk documents
+      tags?: string[];            // Its OpenAPI tags
+      httpMethod?: string;        // e.g. 'POST'
+      apiPath?: string;           // e.g. '/v1/events/{id}'
     };
   }
   
   export interface VectorSearchResult {
+    id?: string;                // Vector id in the store
     content: string;
     source: string;
     score: number;
     metadata?: Record<string, unknown>;
   }
   
+  export interface IngestionChanges {
+    added: number;
+    updated: number;             // Same chunk id, different metadata
+    unchanged: number;
+    deleted: number;             // Stale chunks of re-ingested sources
+  }
+  
   export interface IngestionResult {
     success: boolean;
     message: string;
     chunks: number;
     domain: string;
     source?: string;
+    changes?: IngestionChanges;
   }
   
   export interface ChatRequest {
     message: string;
-    domain: string;
+    domain: string | string[];    // Several domains are searched together
     sessionId?: string;
+    queryExpansion?: boolean | QueryExpansionSettings;
+    filter?: SearchFilter;
+    mmrLambda?: number;
   }
   
   export interface ChatResponse {
     response: string;
-    sources: string[];
+    sources: SourceReference[];
     domain: string;
   }
\ No newline at end of file